@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import {
+  adjustToBusinessDay,
+  parseHolidayList,
+  ruProductionCalendar,
+  weekendCalendar,
+  withCustomHolidays,
+} from "./business-day";
+
+describe("business-day conventions", () => {
+  // Saturday, the next business day is in June
+  const monthEnd = new Date(2025, 4, 31);
+
+  it.each([
+    ["UNADJUSTED", new Date(2025, 4, 31)],
+    ["FOLLOWING", new Date(2025, 5, 2)],
+    ["MODIFIED_FOLLOWING", new Date(2025, 4, 30)],
+    ["PRECEDING", new Date(2025, 4, 30)],
+  ] as const)("moves a Saturday month end with %s", (convention, expected) => {
+    expect(adjustToBusinessDay(monthEnd, convention, weekendCalendar)).toEqual(
+      expected
+    );
+  });
+
+  it("moves forward within the month with MODIFIED_FOLLOWING", () => {
+    expect(
+      adjustToBusinessDay(
+        new Date(2025, 4, 17),
+        "MODIFIED_FOLLOWING",
+        weekendCalendar
+      )
+    ).toEqual(new Date(2025, 4, 19));
+  });
+
+  it("leaves business days as they are", () => {
+    const date = new Date(2025, 4, 30);
+
+    expect(adjustToBusinessDay(date, "PRECEDING", weekendCalendar)).toBe(date);
+  });
+});
+
+describe("Russian production calendar", () => {
+  it("follows the transfers of the bundled years", () => {
+    // 2 May 2025 is a day off moved from a weekend, 1 November a working Saturday
+    expect(ruProductionCalendar.isBusinessDay(new Date(2025, 4, 2))).toBe(
+      false
+    );
+    expect(ruProductionCalendar.isBusinessDay(new Date(2025, 10, 1))).toBe(
+      true
+    );
+    expect(
+      adjustToBusinessDay(
+        new Date(2025, 4, 1),
+        "FOLLOWING",
+        ruProductionCalendar
+      )
+    ).toEqual(new Date(2025, 4, 5));
+  });
+
+  it("falls back to weekends and public holidays before 2022", () => {
+    // 4 November 2021 is a public holiday, the 5th was a transferred day off
+    // missing from the fallback, 20 February a working Saturday
+    expect(ruProductionCalendar.isBusinessDay(new Date(2021, 10, 4))).toBe(
+      false
+    );
+    expect(ruProductionCalendar.isBusinessDay(new Date(2021, 10, 5))).toBe(
+      true
+    );
+    expect(ruProductionCalendar.isBusinessDay(new Date(2021, 1, 20))).toBe(
+      false
+    );
+    expect(
+      adjustToBusinessDay(
+        new Date(2021, 0, 1),
+        "FOLLOWING",
+        ruProductionCalendar
+      )
+    ).toEqual(new Date(2021, 0, 11));
+  });
+});
+
+describe("custom holidays", () => {
+  it("adds the parsed dates to the calendar", () => {
+    const calendar = withCustomHolidays(
+      weekendCalendar,
+      parseHolidayList("02.06.2025; 2025-06-03")
+    );
+
+    expect(
+      adjustToBusinessDay(new Date(2025, 4, 31), "FOLLOWING", calendar)
+    ).toEqual(new Date(2025, 5, 4));
+  });
+});
@@ -0,0 +1,137 @@
+import { addDays, format, isWeekend, parse, parseISO } from "date-fns";
+import ruProductionCalendarData from "./data/ru-production-calendar.json";
+
+/**
+ * How a date falling on a non-business day is moved. MODIFIED_FOLLOWING moves
+ * forward unless that crosses into the next month, then backward.
+ */
+export type BusinessDayConvention =
+  "UNADJUSTED" | "FOLLOWING" | "MODIFIED_FOLLOWING" | "PRECEDING";
+
+export interface HolidayCalendar {
+  isBusinessDay(date: Date): boolean;
+}
+
+export type HolidayCalendarName = "WEEKENDS" | "RU";
+
+interface ProductionCalendarYear {
+  /** Non-working weekdays, including days off transferred from weekends. */
+  holidays: string[];
+  /** Saturdays and Sundays made working days by a transfer. */
+  workingWeekends: string[];
+}
+
+/** Public holidays used for years missing from the production calendar. */
+const RU_PUBLIC_HOLIDAYS = [
+  "01-01",
+  "01-02",
+  "01-03",
+  "01-04",
+  "01-05",
+  "01-06",
+  "01-07",
+  "01-08",
+  "02-23",
+  "03-08",
+  "05-01",
+  "05-09",
+  "06-12",
+  "11-04",
+];
+
+export const weekendCalendar: HolidayCalendar = {
+  isBusinessDay: (date) => !isWeekend(date),
+};
+
+/**
+ * Russian production calendar with the government's working-day transfers.
+ * Years not covered by the bundled data only skip weekends and public holidays.
+ */
+export const ruProductionCalendar: HolidayCalendar = {
+  isBusinessDay(date) {
+    const productionYear: ProductionCalendarYear | undefined = (
+      ruProductionCalendarData as Record<string, ProductionCalendarYear>
+    )[date.getFullYear()];
+    if (!productionYear) {
+      return (
+        !isWeekend(date) && !RU_PUBLIC_HOLIDAYS.includes(format(date, "MM-dd"))
+      );
+    }
+    const day = format(date, "yyyy-MM-dd");
+    if (productionYear.workingWeekends.includes(day)) {
+      return true;
+    }
+    return !isWeekend(date) && !productionYear.holidays.includes(day);
+  },
+};
+
+/** Calendar that also treats the given dates as non-business days. */
+export function withCustomHolidays(
+  calendar: HolidayCalendar,
+  holidays: (Date | string)[]
+): HolidayCalendar {
+  const holidayDays = new Set(
+    holidays.map((holiday) =>
+      format(
+        typeof holiday === "string" ? parseISO(holiday) : holiday,
+        "yyyy-MM-dd"
+      )
+    )
+  );
+  return {
+    isBusinessDay: (date) =>
+      !holidayDays.has(format(date, "yyyy-MM-dd")) &&
+      calendar.isBusinessDay(date),
+  };
+}
+
+/**
+ * Parses a list of dates in the DD.MM.YYYY or YYYY-MM-DD format separated by
+ * commas, semicolons or whitespace. Unparsable entries become Invalid Date.
+ */
+export function parseHolidayList(value: string): Date[] {
+  return value
+    .split(/[\s,;]+/)
+    .filter(Boolean)
+    .map((day) =>
+      day.includes(".") ? parse(day, "dd.MM.yyyy", new Date()) : parseISO(day)
+    );
+}
+
+export function getHolidayCalendar(
+  calendar: HolidayCalendarName | HolidayCalendar
+): HolidayCalendar {
+  if (typeof calendar !== "string") {
+    return calendar;
+  }
+  return calendar === "WEEKENDS" ? weekendCalendar : ruProductionCalendar;
+}
+
+export function adjustToBusinessDay(
+  date: Date,
+  convention: BusinessDayConvention,
+  calendar: HolidayCalendar
+): Date {
+  if (convention === "UNADJUSTED" || calendar.isBusinessDay(date)) {
+    return date;
+  }
+  const moveToBusinessDay = (step: number) => {
+    let adjustedDate = addDays(date, step);
+    while (!calendar.isBusinessDay(adjustedDate)) {
+      adjustedDate = addDays(adjustedDate, step);
+    }
+    return adjustedDate;
+  };
+  switch (convention) {
+    case "FOLLOWING":
+      return moveToBusinessDay(1);
+    case "MODIFIED_FOLLOWING": {
+      const followingDate = moveToBusinessDay(1);
+      return followingDate.getMonth() === date.getMonth()
+        ? followingDate
+        : moveToBusinessDay(-1);
+    }
+    case "PRECEDING":
+      return moveToBusinessDay(-1);
+  }
+}
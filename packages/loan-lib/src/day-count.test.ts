@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { DayCountBasis, getYearFraction } from "./day-count";
+
+const days360 = (dateFrom: Date, dateTo: Date, dayCountBasis: DayCountBasis) =>
+  Math.round(getYearFraction(dateFrom, dateTo, dayCountBasis) * 360);
+
+describe("ACTUAL_ACTUAL", () => {
+  it("splits a period crossing New Year by calendar year", () => {
+    // ISDA example: 61 days of 2003 and 121 days of the leap 2004
+    expect(
+      getYearFraction(
+        new Date(2003, 10, 1),
+        new Date(2004, 4, 1),
+        "ACTUAL_ACTUAL"
+      )
+    ).toBeCloseTo(61 / 365 + 121 / 366, 12);
+    expect(
+      getYearFraction(new Date(2003, 10, 1), new Date(2004, 4, 1), "ACTUAL_365")
+    ).toBeCloseTo(182 / 365, 12);
+  });
+
+  it("counts whole years as one each", () => {
+    expect(
+      getYearFraction(
+        new Date(2023, 6, 15),
+        new Date(2025, 6, 15),
+        "ACTUAL_ACTUAL"
+      )
+    ).toBeCloseTo(2, 12);
+  });
+});
+
+describe("ACTUAL_365L", () => {
+  it("takes the year length from the period end", () => {
+    expect(
+      getYearFraction(
+        new Date(2023, 11, 15),
+        new Date(2024, 0, 15),
+        "ACTUAL_365L"
+      )
+    ).toBeCloseTo(31 / 366, 12);
+  });
+
+  it("uses 366 days for an annual period containing 29 February", () => {
+    const options = { paymentsPerYear: 1 };
+    expect(
+      getYearFraction(
+        new Date(2023, 5, 1),
+        new Date(2024, 5, 1),
+        "ACTUAL_365L",
+        options
+      )
+    ).toBeCloseTo(366 / 366, 12);
+    expect(
+      getYearFraction(
+        new Date(2024, 2, 1),
+        new Date(2025, 2, 1),
+        "ACTUAL_365L",
+        options
+      )
+    ).toBeCloseTo(365 / 365, 12);
+  });
+});
+
+describe("30/360", () => {
+  it.each([
+    // dateFrom, dateTo, THIRTY_360_US, THIRTY_E_360
+    [new Date(2007, 0, 15), new Date(2007, 0, 31), 16, 15],
+    [new Date(2007, 0, 31), new Date(2007, 1, 28), 28, 28],
+    [new Date(2007, 1, 28), new Date(2007, 2, 31), 30, 32],
+    [new Date(2007, 1, 28), new Date(2008, 1, 29), 360, 361],
+    [new Date(2007, 2, 31), new Date(2007, 3, 30), 30, 30],
+    [new Date(2007, 7, 31), new Date(2008, 1, 29), 179, 179],
+  ])(
+    "counts %s to %s as %i days US and %i days European",
+    (dateFrom, dateTo, usDays, europeanDays) => {
+      expect(days360(dateFrom, dateTo, "THIRTY_360_US")).toBe(usDays);
+      expect(days360(dateFrom, dateTo, "THIRTY_E_360")).toBe(europeanDays);
+    }
+  );
+});
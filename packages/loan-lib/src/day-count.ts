@@ -0,0 +1,134 @@
+import {
+  differenceInCalendarDays,
+  getDaysInYear,
+  isLastDayOfMonth,
+  isLeapYear,
+} from "date-fns";
+
+/**
+ * ACTUAL_365 - actual days over 365. ACTUAL_360 - actual days over 360.
+ * ACTUAL_ACTUAL - ISDA, days in each calendar year over that year's length.
+ * ACTUAL_365L - ICMA, actual days over 365 or 366 depending on the period end.
+ * THIRTY_360_US - 30/360 US with the February end of month rule.
+ * THIRTY_E_360 - Eurobond basis, the 31st counts as the 30th.
+ */
+export type DayCountBasis =
+  | "ACTUAL_365"
+  | "ACTUAL_360"
+  | "ACTUAL_ACTUAL"
+  | "ACTUAL_365L"
+  | "THIRTY_360_US"
+  | "THIRTY_E_360";
+
+export interface YearFractionOptions {
+  /**
+   * Payment period containing the dates, ACTUAL_365L picks the year length
+   * from it. Defaults to the dates themselves.
+   */
+  periodStart?: Date;
+  periodEnd?: Date;
+  /** Payments per year, ACTUAL_365L treats annual payments specially. */
+  paymentsPerYear?: number;
+}
+
+/** Fraction of a year between two dates under the day count convention. */
+export function getYearFraction(
+  dateFrom: Date,
+  dateTo: Date,
+  dayCountBasis: DayCountBasis,
+  options: YearFractionOptions = {}
+): number {
+  switch (dayCountBasis) {
+    case "ACTUAL_365":
+      return differenceInCalendarDays(dateTo, dateFrom) / 365;
+    case "ACTUAL_360":
+      return differenceInCalendarDays(dateTo, dateFrom) / 360;
+    case "ACTUAL_ACTUAL":
+      return getActualActualYearFraction(dateFrom, dateTo);
+    case "ACTUAL_365L":
+      return (
+        differenceInCalendarDays(dateTo, dateFrom) /
+        getActual365LDaysInYear(
+          options.periodStart ?? dateFrom,
+          options.periodEnd ?? dateTo,
+          options.paymentsPerYear ?? 12
+        )
+      );
+    case "THIRTY_360_US":
+      return getThirty360Days(dateFrom, dateTo, true) / 360;
+    case "THIRTY_E_360":
+      return getThirty360Days(dateFrom, dateTo, false) / 360;
+  }
+}
+
+/** Days of a period crossing New Year count towards their own year. */
+function getActualActualYearFraction(dateFrom: Date, dateTo: Date): number {
+  let yearFraction = 0;
+  let yearStart = dateFrom;
+  while (yearStart.getFullYear() < dateTo.getFullYear()) {
+    const nextYearStart = new Date(yearStart.getFullYear() + 1, 0, 1);
+    yearFraction +=
+      differenceInCalendarDays(nextYearStart, yearStart) /
+      getDaysInYear(yearStart);
+    yearStart = nextYearStart;
+  }
+  return (
+    yearFraction +
+    differenceInCalendarDays(dateTo, yearStart) / getDaysInYear(dateTo)
+  );
+}
+
+/**
+ * 366 days when an annual period contains 29 February, or when a shorter
+ * period ends in a leap year.
+ */
+function getActual365LDaysInYear(
+  periodStart: Date,
+  periodEnd: Date,
+  paymentsPerYear: number
+): number {
+  if (paymentsPerYear !== 1) {
+    return isLeapYear(periodEnd) ? 366 : 365;
+  }
+  for (
+    let year = periodStart.getFullYear();
+    year <= periodEnd.getFullYear();
+    year++
+  ) {
+    const leapDay = new Date(year, 1, 29);
+    if (isLeapYear(leapDay) && leapDay > periodStart && leapDay <= periodEnd) {
+      return 366;
+    }
+  }
+  return 365;
+}
+
+function getThirty360Days(dateFrom: Date, dateTo: Date, isUs: boolean): number {
+  let dayFrom = dateFrom.getDate();
+  let dayTo = dateTo.getDate();
+  if (isUs) {
+    const isLastDayOfFebruary = (date: Date) =>
+      date.getMonth() === 1 && isLastDayOfMonth(date);
+    if (isLastDayOfFebruary(dateFrom) && isLastDayOfFebruary(dateTo)) {
+      dayTo = 30;
+    }
+    if (isLastDayOfFebruary(dateFrom)) {
+      dayFrom = 30;
+    }
+    if (dayTo === 31 && dayFrom >= 30) {
+      dayTo = 30;
+    }
+    if (dayFrom === 31) {
+      dayFrom = 30;
+    }
+  } else {
+    dayFrom = Math.min(dayFrom, 30);
+    dayTo = Math.min(dayTo, 30);
+  }
+  return (
+    360 * (dateTo.getFullYear() - dateFrom.getFullYear()) +
+    30 * (dateTo.getMonth() - dateFrom.getMonth()) +
+    dayTo -
+    dayFrom
+  );
+}
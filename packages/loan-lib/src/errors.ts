@@ -0,0 +1,68 @@
+import {
+  LoanValidationCode,
+  LoanValidationIssue,
+  LoanValidationLocale,
+  formatValidationIssue,
+} from "./validation";
+
+/** Path to a field of the calculation parameters, e.g. `["fees", 0, "amount"]`. */
+export type LoanParamsPath = (string | number)[];
+
+/** Base class of every error thrown by the calculation. */
+export class LoanCalcError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LoanCalcError";
+  }
+}
+
+/**
+ * Parameters failed validation. `issues` lists every problem found, `code`
+ * and `path` repeat the first one.
+ */
+export class LoanParamsError extends LoanCalcError {
+  readonly issues: LoanValidationIssue[];
+  readonly code: LoanValidationCode;
+  readonly path: LoanParamsPath;
+
+  constructor(issues: LoanValidationIssue[]) {
+    super(issues.map((issue) => formatValidationIssue(issue, "en")).join("; "));
+    this.name = "LoanParamsError";
+    this.issues = issues;
+    this.code = issues[0].code;
+    this.path = issues[0].path;
+  }
+}
+
+export type LoanSolveErrorCode = "NO_SOLUTION";
+
+const SOLVE_ERROR_MESSAGES: Record<
+  LoanValidationLocale,
+  Record<LoanSolveErrorCode, string>
+> = {
+  ru: {
+    NO_SOLUTION: "Не удалось подобрать значение при заданных параметрах",
+  },
+  en: {
+    NO_SOLUTION: "no solution within the supported range",
+  },
+};
+
+/** The solver found no value within the supported range. */
+export class LoanSolveError extends LoanCalcError {
+  readonly code: LoanSolveErrorCode;
+
+  constructor(code: LoanSolveErrorCode) {
+    super(SOLVE_ERROR_MESSAGES.en[code]);
+    this.name = "LoanSolveError";
+    this.code = code;
+  }
+}
+
+/** Message shown for the solver error, Russian by default. */
+export function getSolveErrorMessage(
+  error: LoanSolveError,
+  locale: LoanValidationLocale = "ru"
+): string {
+  return SOLVE_ERROR_MESSAGES[locale][error.code];
+}
@@ -0,0 +1,7 @@
+export * from "./business-day";
+export * from "./day-count";
+export * from "./errors";
+export * from "./loan-lib";
+export * from "./loan-solver";
+export * from "./money";
+export * from "./validation";
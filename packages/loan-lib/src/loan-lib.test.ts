@@ -0,0 +1,237 @@
+import { describe, expect, it } from "vitest";
+import {
+  EarlyRepaymentParams,
+  LoanScheduleParams,
+  calculateLoanCost,
+  generateLoanSchedule,
+} from "./loan-lib";
+import { toMinorUnits } from "./money";
+
+const params: LoanScheduleParams = {
+  principal: 120000,
+  annualInterestRatePercent: 12,
+  loanType: "AMORTIZATION",
+  termMonths: 12,
+  issueDate: new Date(2025, 0, 10),
+};
+
+function getRegularPayments(
+  loanType: LoanScheduleParams["loanType"],
+  repaymentType: EarlyRepaymentParams["repaymentType"]
+) {
+  const { schedule } = generateLoanSchedule({
+    ...params,
+    loanType,
+    earlyRepayments: [
+      {
+        earlyRepaymentDateStart: "2025-03-10",
+        earlyRepaymentAmount: 30000,
+        periodicity: "ONCE",
+        repaymentType,
+      },
+    ],
+  });
+  return schedule.filter((entry) => !entry.isEarlyRepayment);
+}
+
+describe("early repayment types", () => {
+  it("shortens an amortization loan and keeps its principal part on DECREASE_TERM", () => {
+    const payments = getRegularPayments("AMORTIZATION", "DECREASE_TERM");
+
+    expect(payments.length).toBeLessThan(12);
+    payments
+      .slice(0, -1)
+      .forEach((entry) => expect(entry.principalAmount).toBe(10000));
+    expect(payments[payments.length - 1].remainingPrincipal).toBe(0);
+  });
+
+  it("keeps the term of an amortization loan and lowers its principal part on DECREASE_PAYMENT", () => {
+    const payments = getRegularPayments("AMORTIZATION", "DECREASE_PAYMENT");
+
+    expect(payments).toHaveLength(12);
+    expect(payments[0].principalAmount).toBe(10000);
+    payments
+      .slice(2)
+      .forEach((entry) => expect(entry.principalAmount).toBeLessThan(10000));
+    expect(payments[payments.length - 1].remainingPrincipal).toBe(0);
+  });
+
+  it("shortens an annuity loan and keeps its payment on DECREASE_TERM", () => {
+    const payments = getRegularPayments("ANNUITY", "DECREASE_TERM");
+    const annuityPayment = payments[0].paymentAmount;
+
+    expect(payments.length).toBeLessThan(12);
+    payments
+      .slice(0, -1)
+      .forEach((entry) => expect(entry.paymentAmount).toBe(annuityPayment));
+    expect(payments[payments.length - 1].remainingPrincipal).toBe(0);
+  });
+
+  it("keeps the term of an annuity loan and lowers its payment on DECREASE_PAYMENT", () => {
+    const payments = getRegularPayments("ANNUITY", "DECREASE_PAYMENT");
+    const annuityPayment = payments[0].paymentAmount;
+
+    expect(payments).toHaveLength(12);
+    payments
+      .slice(2, -1)
+      .forEach((entry) =>
+        expect(entry.paymentAmount).toBeLessThan(annuityPayment)
+      );
+    expect(payments[payments.length - 1].remainingPrincipal).toBe(0);
+  });
+});
+
+describe("early repayment amount types", () => {
+  it("does not prepay a payment budget before the first payment", () => {
+    const { schedule } = generateLoanSchedule({
+      ...params,
+      earlyRepayments: [
+        {
+          earlyRepaymentDateStart: "2025-01-15",
+          earlyRepaymentAmount: 15000,
+          earlyRepaymentAmountType: "PAYMENT_BUDGET",
+          periodicity: "MONTHLY",
+        },
+      ],
+    });
+    const earlyRepayments = schedule.filter((entry) => entry.isEarlyRepayment);
+
+    expect(earlyRepayments.length).toBeGreaterThan(0);
+    expect(earlyRepayments[0].paymentDate >= schedule[0].paymentDate).toBe(
+      true
+    );
+    earlyRepayments.forEach((entry) =>
+      expect(entry.paymentAmount).toBeLessThan(15000)
+    );
+  });
+
+  it("rejects a round-up step below one minor unit", () => {
+    expect(() =>
+      generateLoanSchedule({
+        ...params,
+        earlyRepayments: [
+          {
+            earlyRepaymentDateStart: "2025-02-10",
+            earlyRepaymentAmount: 0.001,
+            earlyRepaymentAmountType: "ROUND_UP_PAYMENT",
+            periodicity: "MONTHLY",
+          },
+        ],
+      })
+    ).toThrow();
+  });
+});
+
+describe("reconciliation", () => {
+  // Summed in kopecks, sums of roubles pick up floating point noise
+  const sum = (amounts: number[]) =>
+    amounts.reduce((total, amount) => total + toMinorUnits(amount, 2), 0);
+
+  it.each<Partial<LoanScheduleParams>>([
+    { loanType: "ANNUITY", principal: 1234567.89, termMonths: 60 },
+    {
+      loanType: "AMORTIZATION",
+      principal: 99999.99,
+      roundingMode: "HALF_EVEN",
+    },
+    { loanType: "ANNUITY", principal: 100000.01, roundingMode: "TRUNCATE" },
+    {
+      loanType: "ANNUITY",
+      principal: 500000,
+      termMonths: 36,
+      balloonPayment: { type: "PERCENT", value: 12.5 },
+      earlyRepayments: [
+        {
+          earlyRepaymentDateStart: "2025-05-20",
+          earlyRepaymentAmount: 33333.33,
+          repaymentType: "DECREASE_PAYMENT",
+        },
+      ],
+      paymentHolidays: [
+        { startDate: "2025-08-10", periods: 2, type: "CAPITALIZE" },
+      ],
+      fees: [{ name: "Страховка", type: "PERIODIC", amount: 99.99 }],
+    },
+  ])("repays the loan amount to the kopeck with %j", (extra) => {
+    const { schedule, totals } = generateLoanSchedule({
+      ...params,
+      ...extra,
+    });
+
+    // Capitalized interest is a negative principal part, repaid later
+    expect(sum(schedule.map((entry) => entry.principalAmount))).toBe(
+      toMinorUnits(extra.principal, 2)
+    );
+    expect(schedule[schedule.length - 1].remainingPrincipal).toBe(0);
+    expect(toMinorUnits(totals.totalPaymentAmount, 2)).toBe(
+      sum(schedule.map((entry) => entry.paymentAmount))
+    );
+    expect(toMinorUnits(totals.totalPaymentAmount, 2)).toBe(
+      sum(schedule.map((entry) => entry.principalAmount)) +
+        sum(schedule.map((entry) => entry.interestAmount))
+    );
+    expect(toMinorUnits(totals.totalFeeAmount, 2)).toBe(
+      sum(schedule.map((entry) => entry.feeAmount ?? 0))
+    );
+  });
+});
+
+describe("loan cost", () => {
+  const getCost = (extra: Partial<LoanScheduleParams>, issueFee?: number) => {
+    const loanParams = { ...params, loanType: "ANNUITY" as const, ...extra };
+    return calculateLoanCost({
+      schedule: generateLoanSchedule(loanParams).schedule,
+      issueDate: loanParams.issueDate,
+      issueAmount: loanParams.principal,
+      fees: issueFee
+        ? [{ date: loanParams.issueDate, amount: issueFee }]
+        : undefined,
+    });
+  };
+
+  it("matches the nominal rate for equal periods", () => {
+    // 1% a month, ПСК is 12 periods * 1%
+    expect(getCost({ dayCountBasis: "THIRTY_E_360" })).toEqual({
+      fullCostPercent: 12,
+      effectiveAnnualRatePercent: 12.738,
+    });
+  });
+
+  it("discounts the actual days of the periods", () => {
+    // Interest accrues on actual days as the effective rate does, 1.01 ^ 12 - 1
+    expect(getCost({})).toEqual({
+      fullCostPercent: 11.95,
+      effectiveAnnualRatePercent: 12.683,
+    });
+  });
+
+  it("includes the fees paid at issue", () => {
+    expect(getCost({}, 1200)).toEqual({
+      fullCostPercent: 13.864,
+      effectiveAnnualRatePercent: 14.845,
+    });
+  });
+});
+
+describe("interest trace", () => {
+  it("splits the interest an early repayment does not cover", () => {
+    const { schedule } = generateLoanSchedule({
+      ...params,
+      includeTrace: true,
+      earlyRepayments: [
+        { earlyRepaymentDateStart: "2025-03-01", earlyRepaymentAmount: 100 },
+      ],
+    });
+    const index = schedule.findIndex((entry) => entry.isEarlyRepayment);
+    const { interestAmount, trace } = schedule[index];
+
+    expect(trace.bookedInterestAmount).toBe(interestAmount);
+    expect(trace.bookedInterestAmount).toBe(100);
+    expect(
+      trace.bookedInterestAmount + trace.carriedForwardInterestAmount
+    ).toBeCloseTo(trace.interestAmount, 2);
+    expect(schedule[index + 1].trace.carriedOverInterestAmount).toBe(
+      trace.carriedForwardInterestAmount
+    );
+  });
+});
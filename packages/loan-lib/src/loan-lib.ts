@@ -0,0 +1,1849 @@
+import {
+  addMonths,
+  addDays,
+  differenceInCalendarDays,
+  differenceInMonths,
+  getDaysInMonth,
+  isLeapYear,
+  startOfDay,
+} from "date-fns";
+import {
+  BusinessDayConvention,
+  HolidayCalendar,
+  HolidayCalendarName,
+  adjustToBusinessDay,
+  getHolidayCalendar,
+  ruProductionCalendar,
+  weekendCalendar,
+  withCustomHolidays,
+} from "./business-day";
+import { DayCountBasis, getYearFraction } from "./day-count";
+import { LoanParamsError } from "./errors";
+import {
+  MinorUnits,
+  RoundingMode,
+  ZERO_MINOR_UNITS,
+  fromMinorUnits,
+  roundMoney,
+  roundToMinorUnits,
+  toMinorUnits,
+} from "./money";
+import { validateLoanScheduleParams } from "./validation";
+
+/**
+ * How the amount of an early repayment is found at each occurrence. AMOUNT -
+ * `earlyRepaymentAmount` as is. PERCENT_OF_BALANCE - the percent of the
+ * remaining principal. ROUND_UP_PAYMENT - the regular payment is rounded up
+ * to a multiple of the amount and the difference is prepaid. PAYMENT_BUDGET -
+ * the amount is paid in total, whatever the regular payment leaves is
+ * prepaid. The last two count from the regular payment made with the early
+ * repayment or the last one before it, fees are not part of it. They are
+ * skipped before the first regular payment and after a payment holiday row
+ * until the next regular payment.
+ */
+export type EarlyRepaymentAmountType =
+  "AMOUNT" | "PERCENT_OF_BALANCE" | "ROUND_UP_PAYMENT" | "PAYMENT_BUDGET";
+
+export interface EarlyRepaymentParams {
+  earlyRepaymentDateStart: Date | string;
+  earlyRepaymentDateEnd?: Date | string;
+  /** Defaults to ONCE. */
+  periodicity?: "ONCE" | "MONTHLY" | "QUARTERLY" | "YEARLY";
+  earlyRepaymentAmount?: number;
+  /** Defaults to AMOUNT. */
+  earlyRepaymentAmountType?: EarlyRepaymentAmountType;
+  /**
+   * DECREASE_TERM keeps the regular payment, or the principal part of an
+   * amortization loan, and pays the loan off sooner. DECREASE_PAYMENT spreads
+   * the remaining principal over the remaining term. Defaults to DECREASE_TERM.
+   */
+  repaymentType?: "DECREASE_TERM" | "DECREASE_PAYMENT";
+  /**
+   * Paid together with the first regular payment on or after the date, the
+   * way most banks accept early repayments. The amount goes to principal only
+   * and is added to that payment's row instead of a row of its own.
+   */
+  withRegularPayment?: boolean;
+}
+
+export interface EarlyRepaymentRecord extends EarlyRepaymentParams {
+  id: number;
+  earlyRepaymentDateStart: Date;
+  earlyRepaymentDateEnd?: Date;
+  earlyRepaymentDate: Date;
+}
+
+export interface RateChangeParams {
+  effectiveDate: Date | string;
+  annualInterestRatePercent: number;
+}
+
+export interface RateChangeRecord {
+  effectiveDate: Date;
+  annualInterestRatePercent: number;
+}
+
+export interface LoanFeeParams {
+  /** Fee name, used as the key in `LoanScheduleEntry.fees`. */
+  name: string;
+  type: "ONE_OFF" | "PERIODIC" | "PERCENT_OF_BALANCE";
+  /**
+   * Fixed amount for ONE_OFF and PERIODIC fees. For PERCENT_OF_BALANCE fees
+   * the percent of the remaining principal charged on each occurrence.
+   */
+  amount: number;
+  /** Date of a ONE_OFF fee. Defaults to the issue date. */
+  date?: Date | string;
+  /** How often PERIODIC and PERCENT_OF_BALANCE fees are charged. */
+  periodicity?: "MONTHLY" | "QUARTERLY" | "YEARLY";
+}
+
+export type PaymentHolidayType = "INTEREST_ONLY" | "CAPITALIZE" | "DEFER";
+
+export interface PaymentHolidayParams {
+  /** Holiday covers the payments falling on or after this date. */
+  startDate: Date | string;
+  /** Number of payments covered by the holiday. */
+  periods: number;
+  /**
+   * INTEREST_ONLY - only interest is paid. CAPITALIZE - nothing is paid and
+   * interest is added to the principal. DEFER - nothing is paid and interest
+   * is paid with the first payment after the holiday.
+   */
+  type: PaymentHolidayType;
+}
+
+export interface PaymentHolidayRecord {
+  startDate: Date;
+  remainingPeriods: number;
+  type: PaymentHolidayType;
+}
+
+export interface BalloonPaymentParams {
+  /** AMOUNT - absolute residual, PERCENT - percent of the principal. */
+  type: "AMOUNT" | "PERCENT";
+  value: number;
+}
+
+export type PaymentFrequency =
+  "WEEKLY" | "BIWEEKLY" | "MONTHLY" | "QUARTERLY" | "SEMI_ANNUAL" | "ANNUAL";
+
+export const PAYMENTS_PER_YEAR: Record<PaymentFrequency, number> = {
+  WEEKLY: 52,
+  BIWEEKLY: 26,
+  MONTHLY: 12,
+  QUARTERLY: 4,
+  SEMI_ANNUAL: 2,
+  ANNUAL: 1,
+};
+
+export interface LoanScheduleParams {
+  principal: number;
+  annualInterestRatePercent: number;
+  loanType: "ANNUITY" | "AMORTIZATION";
+  /** Loan term. The number of payments follows from the payment frequency. */
+  termMonths: number;
+  issueDate: Date;
+  /** Defaults to MONTHLY. */
+  paymentFrequency?: PaymentFrequency;
+  /**
+   * Day of the month payments fall on. Weekly and bi-weekly payments are
+   * counted from the issue date instead.
+   */
+  paymentDayNumber?: number;
+  /** Shorthand for a one period INTEREST_ONLY holiday at the start. */
+  interestOnlyFirstPeriod?: boolean;
+  /** @deprecated Same as the FOLLOWING business day convention. */
+  moveHolidayToNextDay?: boolean;
+  /**
+   * How payment dates falling on non-business days are moved. Interest is
+   * accrued up to the adjusted date. Defaults to UNADJUSTED.
+   */
+  businessDayConvention?: BusinessDayConvention;
+  /** Business day calendar, the RU production calendar by default. */
+  holidayCalendar?: HolidayCalendarName | HolidayCalendar;
+  /** Extra non-business days on top of the calendar. */
+  customHolidays?: (Date | string)[];
+  /** Defaults to ACTUAL_365. */
+  dayCountBasis?: DayCountBasis;
+  /** Number of fractional digits to round monetary amounts to. Defaults to 2. */
+  roundingDecimals?: number;
+  /** How amounts are rounded to `roundingDecimals`. Defaults to HALF_UP. */
+  roundingMode?: RoundingMode;
+  earlyRepayments?: EarlyRepaymentParams[];
+  /**
+   * Rate changes applied from their effective date onward. Interest of a period
+   * containing a change is split by day, and the annuity is recalculated.
+   */
+  rateChanges?: RateChangeParams[];
+  /** Commissions and insurance charged on top of the loan payments. */
+  fees?: LoanFeeParams[];
+  /**
+   * Grace periods and payment holidays. The payment is recalculated over the
+   * remaining term once a holiday ends.
+   */
+  paymentHolidays?: PaymentHolidayParams[];
+  /** Residual principal left for the final payment instead of amortizing. */
+  balloonPayment?: BalloonPaymentParams;
+  /**
+   * Fixed regular payment of an annuity loan. Calculated from the principal,
+   * rate and term when omitted.
+   */
+  annuityPayment?: number;
+  /** Adds `trace` to the schedule rows, explaining how interest was charged. */
+  includeTrace?: boolean;
+}
+
+/**
+ * Calculation state. Monetary amounts are kept in minor units, see `money.ts`.
+ */
+export interface LoanCalcSharedParams {
+  readonly loanType: "ANNUITY" | "AMORTIZATION";
+  readonly roundingMode: RoundingMode;
+  readonly dayCountBasis: DayCountBasis;
+  readonly paymentsPerYear: number;
+  /** Rate periods ordered by date, the first one starts at the issue date. */
+  readonly rateSchedule: RateChangeRecord[];
+  annualInterestRatePercent: number;
+  previousDate: Date;
+  currentDate: Date;
+  nextDate: Date;
+  /** Payments left, the annuity is recalculated over them. */
+  periodsToCalculate: number;
+  remainingPrincipal: MinorUnits;
+  /** Nominal rate of one payment period. */
+  periodInterestRate: number;
+  amortizationPrincipal: MinorUnits;
+  annuityPayment: MinorUnits;
+  remainingInterestAmount: MinorUnits;
+  /** Interest postponed by a DEFER holiday. */
+  deferredInterestAmount: MinorUnits;
+  /**
+   * Last regular payment booked, early repayments by ROUND_UP_PAYMENT and
+   * PAYMENT_BUDGET are counted from it. Undefined before the first payment
+   * and after a payment holiday row.
+   */
+  regularPaymentAmount?: MinorUnits;
+  readonly balloonAmount: MinorUnits;
+  readonly roundingDecimals: number;
+  /** Build `LoanScheduleEntry.trace`, see `getEntryTrace`. */
+  readonly includeTrace: boolean;
+}
+
+/**
+ * Interest accrued at one rate, a part of `LoanEntryTrace`. Amounts are in
+ * minor units while the schedule is calculated.
+ */
+export interface InterestAccrualTrace<Amount extends number = number> {
+  periodStart: Date;
+  periodEnd: Date;
+  /** Calendar days between the dates. */
+  days: number;
+  /** Fraction of a year between the dates under the day count basis. */
+  yearFraction: number;
+  annualInterestRatePercent: number;
+  /** Principal the interest is accrued on. */
+  principal: Amount;
+  /** principal * rate / 100 * yearFraction, not rounded. */
+  interestAmount: Amount;
+}
+
+/** How the interest of a schedule row was calculated. */
+export interface LoanEntryTrace<Amount extends number = number> {
+  /** Interest period, from the previous payment to this one. */
+  periodStart: Date;
+  periodEnd: Date;
+  days: number;
+  dayCountBasis: DayCountBasis;
+  /** Accrual at each rate, several when the rate changes within the period. */
+  accruals: InterestAccrualTrace<Amount>[];
+  /** Sum of the accruals before rounding. */
+  accruedInterestAmount: Amount;
+  roundingDecimals: number;
+  roundingMode: RoundingMode;
+  /**
+   * Interest of the period, the accruals rounded to `roundingDecimals` or the
+   * carried over interest.
+   */
+  interestAmount: Amount;
+  /**
+   * Interest an early repayment in the period did not cover. It is charged
+   * instead of accruing the period, the accruals are empty then.
+   */
+  carriedOverInterestAmount?: Amount;
+  /**
+   * Part of `interestAmount` paid by an early repayment too small to cover
+   * it, the row shows only this part.
+   */
+  bookedInterestAmount?: Amount;
+  /**
+   * The rest of `interestAmount`, carried over to the next payment and shown
+   * there as `carriedOverInterestAmount`.
+   */
+  carriedForwardInterestAmount?: Amount;
+  /** Interest postponed by DEFER holidays and charged with this payment. */
+  deferredInterestAmount?: Amount;
+  /** Regular annuity payment, its principal part is what interest leaves. */
+  annuityPayment?: Amount;
+}
+
+/** Schedule row, amounts are in minor units while it is calculated. */
+export interface LoanScheduleEntry<Amount extends number = number> {
+  paymentDate: Date;
+  paymentAmount: Amount;
+  interestAmount: Amount;
+  principalAmount: Amount;
+  remainingPrincipal: Amount;
+  isEarlyRepayment?: boolean;
+  /**
+   * Early repayment made with the regular payment, included in
+   * `principalAmount` and `paymentAmount`.
+   */
+  earlyRepaymentAmount?: Amount;
+  paymentHoliday?: PaymentHolidayType;
+  /** Fees charged on this date by fee name. */
+  fees?: Record<string, Amount>;
+  /** Sum of `fees`, not included in `paymentAmount`. */
+  feeAmount?: Amount;
+  /** Present when `LoanScheduleParams.includeTrace` is set. */
+  trace?: LoanEntryTrace<Amount>;
+}
+
+export interface LoanCashflow {
+  date: Date | string;
+  amount: number;
+}
+
+export interface LoanCostParams {
+  schedule: LoanScheduleEntry[];
+  issueDate: Date | string;
+  /** Amount actually paid out to the borrower. */
+  issueAmount: number;
+  /** One-off fees paid by the borrower, e.g. an issuance commission. */
+  fees?: LoanCashflow[];
+}
+
+export interface LoanScheduleTotals<Amount extends number = number> {
+  totalPaymentAmount: Amount;
+  totalPrincipalAmount: Amount;
+  totalInterestAmount: Amount;
+  totalFeeAmount: Amount;
+}
+
+export interface LoanCost {
+  /** Full cost of credit (ПСК) by the Bank of Russia formula, % per annum. */
+  fullCostPercent: number;
+  /** XIRR-style effective annual rate on an actual/365 basis, %. */
+  effectiveAnnualRatePercent: number;
+}
+
+/**
+ * Builds the payment schedule. Amounts are calculated in integer minor units
+ * and rounded once per operation, so the totals are exact sums of the rows.
+ */
+export function generateLoanSchedule(params: LoanScheduleParams): {
+  schedule: LoanScheduleEntry[];
+  startMonthlyPayment: number;
+  totals: LoanScheduleTotals;
+} {
+  const schedule: LoanScheduleEntry<MinorUnits>[] = [];
+
+  const {
+    annualInterestRatePercent,
+    termMonths,
+    loanType = "ANNUITY",
+    paymentFrequency = "MONTHLY",
+    interestOnlyFirstPeriod = false,
+    dayCountBasis = "ACTUAL_365",
+    roundingDecimals = 2,
+    roundingMode = "HALF_UP",
+    earlyRepayments = [],
+    moveHolidayToNextDay = false,
+    businessDayConvention = moveHolidayToNextDay ? "FOLLOWING" : "UNADJUSTED",
+    customHolidays = [],
+    rateChanges = [],
+    fees = [],
+    paymentHolidays = [],
+    balloonPayment,
+    includeTrace = false,
+  } = params;
+  const issues = validateLoanScheduleParams(params);
+  if (issues.length > 0) {
+    throw new LoanParamsError(issues);
+  }
+  // A copy, the caller's date is left as is
+  const issueDate = startOfDay(params.issueDate);
+
+  const principal = toMinorUnits(
+    params.principal,
+    roundingDecimals,
+    roundingMode
+  );
+  const annuityPayment =
+    params.annuityPayment !== undefined
+      ? toMinorUnits(params.annuityPayment, roundingDecimals, roundingMode)
+      : undefined;
+  const balloonAmount = balloonPayment
+    ? balloonPayment.type === "PERCENT"
+      ? roundToMinorUnits(
+          (principal * balloonPayment.value) / 100,
+          roundingMode
+        )
+      : toMinorUnits(balloonPayment.value, roundingDecimals, roundingMode)
+    : ZERO_MINOR_UNITS;
+
+  const earlyRepaymentRecords: Record<number, EarlyRepaymentRecord> = {};
+  // Paid with the regular payments, see `applyEarlyRepaymentsWithPayment`
+  const withPaymentRecords: Record<number, EarlyRepaymentRecord> = {};
+  earlyRepayments.forEach((earlyRepayment, index) => {
+    const records = earlyRepayment.withRegularPayment
+      ? withPaymentRecords
+      : earlyRepaymentRecords;
+    records[index] = {
+      ...earlyRepayment,
+      id: index,
+      earlyRepaymentDateStart: new Date(earlyRepayment.earlyRepaymentDateStart),
+      earlyRepaymentDateEnd: earlyRepayment.earlyRepaymentDateEnd
+        ? new Date(earlyRepayment.earlyRepaymentDateEnd)
+        : undefined,
+      earlyRepaymentDate: new Date(earlyRepayment.earlyRepaymentDateStart),
+      periodicity: earlyRepayment.periodicity ?? "ONCE",
+      earlyRepaymentAmount:
+        earlyRepayment.earlyRepaymentAmountType === "PERCENT_OF_BALANCE"
+          ? (earlyRepayment.earlyRepaymentAmount ?? 0)
+          : toMinorUnits(
+              earlyRepayment.earlyRepaymentAmount ?? 0,
+              roundingDecimals,
+              roundingMode
+            ),
+    };
+  });
+
+  const rateSchedule: RateChangeRecord[] = [
+    { effectiveDate: issueDate, annualInterestRatePercent },
+    ...rateChanges
+      .map((rateChange) => {
+        const effectiveDate = new Date(rateChange.effectiveDate);
+        effectiveDate.setHours(0, 0, 0, 0);
+        return {
+          effectiveDate,
+          annualInterestRatePercent: rateChange.annualInterestRatePercent,
+        };
+      })
+      .filter((rateChange) => rateChange.effectiveDate >= issueDate)
+      .sort((a, b) => a.effectiveDate.getTime() - b.effectiveDate.getTime()),
+  ];
+
+  const paymentHolidayRecords: PaymentHolidayRecord[] = paymentHolidays
+    .map((paymentHoliday) => {
+      const startDate = new Date(paymentHoliday.startDate);
+      startDate.setHours(0, 0, 0, 0);
+      return {
+        startDate,
+        remainingPeriods: paymentHoliday.periods,
+        type: paymentHoliday.type,
+      };
+    })
+    .sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+  if (interestOnlyFirstPeriod) {
+    paymentHolidayRecords.unshift({
+      startDate: issueDate,
+      remainingPeriods: 1,
+      type: "INTEREST_ONLY",
+    });
+  }
+
+  const paymentDayNumber = params.paymentDayNumber ?? issueDate.getDate();
+  const paymentsPerYear = PAYMENTS_PER_YEAR[paymentFrequency];
+  const holidayCalendar = withCustomHolidays(
+    getHolidayCalendar(params.holidayCalendar ?? "RU"),
+    customHolidays
+  );
+  let paymentNumber = 1;
+  const getNextPaymentDate = () =>
+    getPaymentDate(
+      issueDate,
+      paymentDayNumber,
+      paymentNumber,
+      businessDayConvention,
+      holidayCalendar,
+      paymentFrequency
+    );
+  const periods = getPaymentPeriods(termMonths, paymentFrequency);
+  const periodsToCalculate = periods;
+  let sharedParams: LoanCalcSharedParams = {
+    loanType,
+    previousDate: issueDate,
+    currentDate: issueDate,
+    nextDate: getNextPaymentDate(),
+    remainingPrincipal: principal,
+    periodsToCalculate,
+    periodInterestRate: annualInterestRatePercent / paymentsPerYear / 100,
+    annualInterestRatePercent,
+    amortizationPrincipal: roundToMinorUnits(
+      (principal - balloonAmount) / periodsToCalculate,
+      roundingMode
+    ),
+    annuityPayment:
+      annuityPayment ??
+      roundToMinorUnits(
+        getAnnuityPaymentValue({
+          principal,
+          periodInterestRate: annualInterestRatePercent / paymentsPerYear / 100,
+          periods,
+          balloonAmount,
+        }),
+        roundingMode
+      ),
+    remainingInterestAmount: ZERO_MINOR_UNITS,
+    deferredInterestAmount: ZERO_MINOR_UNITS,
+    balloonAmount,
+    roundingMode,
+    roundingDecimals,
+    dayCountBasis,
+    paymentsPerYear,
+    rateSchedule,
+    includeTrace,
+  };
+  // A payment that does not cover the interest grows the debt. The first
+  // period may be shorter or longer than the rest, so both are compared, and
+  // its payment date is only known here, not in `validateLoanScheduleParams`.
+  if (
+    loanType === "ANNUITY" &&
+    annuityPayment !== undefined &&
+    annuityPayment <=
+      Math.max(
+        calculateInterestAmount(sharedParams, issueDate, sharedParams.nextDate),
+        roundToMinorUnits(
+          principal * sharedParams.periodInterestRate,
+          roundingMode
+        )
+      )
+  ) {
+    throw new LoanParamsError([
+      { code: "PAYMENT_BELOW_INTEREST", path: ["annuityPayment"] },
+    ]);
+  }
+
+  let startMonthlyPayment: MinorUnits | undefined;
+  let remainingPeriods = periods;
+  let isPaymentHolidayEnded = false;
+
+  while (remainingPeriods > 0) {
+    const periodStart = sharedParams.currentDate;
+    sharedParams.remainingInterestAmount = ZERO_MINOR_UNITS;
+    applyRateChanges(sharedParams);
+    const nextEarlyRepayment = getNextEarlyRepayment(
+      earlyRepaymentRecords,
+      sharedParams.currentDate,
+      sharedParams.nextDate
+    );
+
+    if (nextEarlyRepayment.length > 0) {
+      const {
+        updatedSharedParams,
+        loanSchedule,
+        deletedEarlyRepayments,
+        updatedEarlyRepayments,
+      } = applyEarlyRepayments(sharedParams, nextEarlyRepayment);
+      sharedParams = updatedSharedParams;
+      schedule.push(...loanSchedule);
+
+      if (deletedEarlyRepayments.length > 0) {
+        for (const deletedEarlyRepayment of deletedEarlyRepayments) {
+          delete earlyRepaymentRecords[deletedEarlyRepayment.id];
+        }
+      }
+      if (updatedEarlyRepayments.length > 0) {
+        for (const updatedEarlyRepayment of updatedEarlyRepayments) {
+          earlyRepaymentRecords[updatedEarlyRepayment.id] =
+            updatedEarlyRepayment;
+        }
+      }
+    }
+
+    if (sharedParams.remainingPrincipal <= 0) {
+      break;
+    }
+
+    const interestAmount =
+      sharedParams.remainingInterestAmount != 0
+        ? sharedParams.remainingInterestAmount
+        : calculateInterestAmount(
+            sharedParams,
+            sharedParams.currentDate,
+            sharedParams.nextDate
+          );
+    // Before the principal changes, the trace shows what interest accrued on
+    const trace = getEntryTrace(
+      sharedParams,
+      sharedParams.currentDate,
+      sharedParams.nextDate,
+      sharedParams.remainingInterestAmount
+    );
+
+    const paymentHoliday =
+      remainingPeriods > 1
+        ? paymentHolidayRecords.find(
+            (record) =>
+              record.remainingPeriods > 0 &&
+              record.startDate <= sharedParams.nextDate
+          )
+        : undefined;
+    if (paymentHoliday) {
+      schedule.push({
+        ...applyPaymentHoliday(
+          sharedParams,
+          paymentHoliday.type,
+          interestAmount
+        ),
+        ...(trace && { trace }),
+      });
+      paymentHoliday.remainingPeriods = paymentHoliday.remainingPeriods - 1;
+      isPaymentHolidayEnded = true;
+      sharedParams.periodsToCalculate = sharedParams.periodsToCalculate - 1;
+      sharedParams.previousDate = sharedParams.currentDate;
+      sharedParams.currentDate = sharedParams.nextDate;
+      paymentNumber = paymentNumber + 1;
+      sharedParams.nextDate = getNextPaymentDate();
+      remainingPeriods = remainingPeriods - 1;
+      sharedParams.regularPaymentAmount = undefined;
+      applyEarlyRepaymentsWithPayment(
+        sharedParams,
+        schedule[schedule.length - 1],
+        withPaymentRecords,
+        periodStart
+      );
+      continue;
+    }
+
+    if (isPaymentHolidayEnded) {
+      isPaymentHolidayEnded = false;
+      recalculatePayment(sharedParams);
+    }
+    startMonthlyPayment ??=
+      loanType === "ANNUITY"
+        ? sharedParams.annuityPayment
+        : sharedParams.amortizationPrincipal;
+
+    const deferredInterestAmount = sharedParams.deferredInterestAmount;
+    sharedParams.deferredInterestAmount = ZERO_MINOR_UNITS;
+    if (trace && deferredInterestAmount > 0) {
+      trace.deferredInterestAmount = deferredInterestAmount;
+    }
+
+    if (
+      remainingPeriods === 1 ||
+      (loanType === "ANNUITY" &&
+        sharedParams.remainingPrincipal <= sharedParams.annuityPayment) ||
+      (loanType === "AMORTIZATION" &&
+        sharedParams.remainingPrincipal - getBalloonAmount(sharedParams) <
+          sharedParams.amortizationPrincipal)
+    ) {
+      schedule.push({
+        paymentDate: sharedParams.nextDate,
+        paymentAmount: roundToMinorUnits(
+          sharedParams.remainingPrincipal +
+            interestAmount +
+            deferredInterestAmount,
+          roundingMode
+        ),
+        interestAmount: roundToMinorUnits(
+          interestAmount + deferredInterestAmount,
+          roundingMode
+        ),
+        principalAmount: sharedParams.remainingPrincipal,
+        remainingPrincipal: ZERO_MINOR_UNITS,
+        ...(trace && { trace }),
+      });
+      break;
+    }
+
+    if (loanType === "ANNUITY") {
+      const principalAmount = roundToMinorUnits(
+        sharedParams.annuityPayment - interestAmount,
+        roundingMode
+      );
+      sharedParams.remainingPrincipal = roundToMinorUnits(
+        sharedParams.remainingPrincipal - principalAmount,
+        roundingMode
+      );
+      schedule.push({
+        paymentDate: sharedParams.nextDate,
+        paymentAmount: roundToMinorUnits(
+          sharedParams.annuityPayment + deferredInterestAmount,
+          roundingMode
+        ),
+        interestAmount: roundToMinorUnits(
+          interestAmount + deferredInterestAmount,
+          roundingMode
+        ),
+        principalAmount: principalAmount,
+        remainingPrincipal: sharedParams.remainingPrincipal,
+        ...(trace && {
+          trace: { ...trace, annuityPayment: sharedParams.annuityPayment },
+        }),
+      });
+    } else {
+      sharedParams.remainingPrincipal = roundToMinorUnits(
+        sharedParams.remainingPrincipal - sharedParams.amortizationPrincipal,
+        roundingMode
+      );
+
+      const paymentAmount = roundToMinorUnits(
+        sharedParams.amortizationPrincipal +
+          interestAmount +
+          deferredInterestAmount,
+        roundingMode
+      );
+      schedule.push({
+        paymentDate: sharedParams.nextDate,
+        paymentAmount,
+        interestAmount: roundToMinorUnits(
+          interestAmount + deferredInterestAmount,
+          roundingMode
+        ),
+        principalAmount: sharedParams.amortizationPrincipal,
+        remainingPrincipal: sharedParams.remainingPrincipal,
+        ...(trace && { trace }),
+      });
+    }
+
+    sharedParams.periodsToCalculate = sharedParams.periodsToCalculate - 1;
+    sharedParams.previousDate = sharedParams.currentDate;
+    sharedParams.currentDate = sharedParams.nextDate;
+    paymentNumber = paymentNumber + 1;
+    sharedParams.nextDate = getNextPaymentDate();
+    remainingPeriods = remainingPeriods - 1;
+    sharedParams.regularPaymentAmount =
+      schedule[schedule.length - 1].paymentAmount;
+    applyEarlyRepaymentsWithPayment(
+      sharedParams,
+      schedule[schedule.length - 1],
+      withPaymentRecords,
+      periodStart
+    );
+  }
+
+  const feeSchedule =
+    fees.length > 0
+      ? applyFees(
+          schedule,
+          fees,
+          issueDate,
+          principal,
+          paymentsPerYear,
+          roundingDecimals,
+          roundingMode
+        )
+      : schedule;
+  const totals = feeSchedule.reduce<LoanScheduleTotals<MinorUnits>>(
+    (sum, entry) => ({
+      totalPaymentAmount: roundToMinorUnits(
+        sum.totalPaymentAmount + entry.paymentAmount
+      ),
+      totalPrincipalAmount: roundToMinorUnits(
+        sum.totalPrincipalAmount + entry.principalAmount
+      ),
+      totalInterestAmount: roundToMinorUnits(
+        sum.totalInterestAmount + entry.interestAmount
+      ),
+      totalFeeAmount: roundToMinorUnits(
+        sum.totalFeeAmount + (entry.feeAmount ?? 0)
+      ),
+    }),
+    {
+      totalPaymentAmount: ZERO_MINOR_UNITS,
+      totalPrincipalAmount: ZERO_MINOR_UNITS,
+      totalInterestAmount: ZERO_MINOR_UNITS,
+      totalFeeAmount: ZERO_MINOR_UNITS,
+    }
+  );
+  const fromMinor = (amount: MinorUnits) =>
+    fromMinorUnits(amount, roundingDecimals);
+
+  return {
+    schedule: feeSchedule.map((entry) => ({
+      ...entry,
+      paymentAmount: fromMinor(entry.paymentAmount),
+      interestAmount: fromMinor(entry.interestAmount),
+      principalAmount: fromMinor(entry.principalAmount),
+      remainingPrincipal: fromMinor(entry.remainingPrincipal),
+      ...(entry.earlyRepaymentAmount !== undefined && {
+        earlyRepaymentAmount: fromMinor(entry.earlyRepaymentAmount),
+      }),
+      ...(entry.fees && {
+        fees: Object.fromEntries(
+          Object.entries(entry.fees).map(([name, amount]) => [
+            name,
+            fromMinor(amount),
+          ])
+        ),
+        feeAmount: fromMinor(entry.feeAmount),
+      }),
+      ...(entry.trace && {
+        trace: fromMinorUnitsTrace(entry.trace, roundingDecimals),
+      }),
+    })),
+    startMonthlyPayment: fromMinor(
+      startMonthlyPayment ??
+        (loanType === "ANNUITY"
+          ? sharedParams.annuityPayment
+          : sharedParams.amortizationPrincipal)
+    ),
+    totals: {
+      totalPaymentAmount: fromMinor(totals.totalPaymentAmount),
+      totalPrincipalAmount: fromMinor(totals.totalPrincipalAmount),
+      totalInterestAmount: fromMinor(totals.totalInterestAmount),
+      totalFeeAmount: fromMinor(totals.totalFeeAmount),
+    },
+  };
+}
+
+/** Number of payments over the term, the last period may be shorter. */
+export function getPaymentPeriods(
+  termMonths: number,
+  paymentFrequency: PaymentFrequency = "MONTHLY"
+): number {
+  return Math.max(
+    Math.ceil(
+      roundDecimals((termMonths * PAYMENTS_PER_YEAR[paymentFrequency]) / 12, 6)
+    ),
+    1
+  );
+}
+
+/**
+ * Date of the n-th regular payment. The payment day is clamped to the length
+ * of the month, and every date is counted from the issue date, so an adjusted
+ * date never shifts the ones after it.
+ */
+export function getPaymentDate(
+  issueDate: Date,
+  paymentDayNumber: number,
+  paymentNumber: number,
+  businessDayConvention: BusinessDayConvention = "UNADJUSTED",
+  holidayCalendar: HolidayCalendar = ruProductionCalendar,
+  paymentFrequency: PaymentFrequency = "MONTHLY"
+): Date {
+  let paymentDate: Date;
+  if (paymentFrequency === "WEEKLY" || paymentFrequency === "BIWEEKLY") {
+    paymentDate = addDays(
+      issueDate,
+      (paymentNumber * 7 * 52) / PAYMENTS_PER_YEAR[paymentFrequency]
+    );
+  } else {
+    paymentDate = new Date(
+      issueDate.getFullYear(),
+      issueDate.getMonth() +
+        (paymentNumber * 12) / PAYMENTS_PER_YEAR[paymentFrequency],
+      1
+    );
+    paymentDate.setDate(
+      Math.min(paymentDayNumber, getDaysInMonth(paymentDate))
+    );
+  }
+  return adjustToBusinessDay(
+    paymentDate,
+    businessDayConvention,
+    holidayCalendar
+  );
+}
+
+/** Annuity payment per period, the rate is the nominal rate of one period. */
+export function calculateAnnuityPayment(dto: {
+  principal: number;
+  periodInterestRate: number;
+  periods: number;
+  roundingDecimals: number;
+  roundingMode?: RoundingMode;
+  /** Principal left unpaid by the annuity and repaid with the last payment. */
+  balloonAmount?: number;
+}): number {
+  return roundDecimals(
+    getAnnuityPaymentValue(dto),
+    dto.roundingDecimals,
+    dto.roundingMode
+  );
+}
+
+/**
+ * Monthly annuity payment.
+ * @deprecated Use `calculateAnnuityPayment`, which also takes other payment
+ * frequencies, a rounding mode and a balloon payment.
+ */
+export function calculateAnnuityMonthlyPayment(dto: {
+  principal: number;
+  monthlyInterestRate: number;
+  termMonths: number;
+  roundingDecimals: number;
+}): number {
+  return calculateAnnuityPayment({
+    principal: dto.principal,
+    periodInterestRate: dto.monthlyInterestRate,
+    periods: dto.termMonths,
+    roundingDecimals: dto.roundingDecimals,
+  });
+}
+
+/**
+ * Next monthly payment date after `currentDate`, a weekend date is moved to
+ * Monday when `moveHolidayToNextDay` is set.
+ * @deprecated Use `getPaymentDate`, which counts every date from the issue
+ * date and takes a business-day convention and a holiday calendar.
+ */
+export function moveToNextDate(
+  currentDate: Date,
+  paymentDayNumber: number,
+  moveHolidayToNextDay: boolean
+): Date {
+  const nextDate = new Date(currentDate);
+  if (nextDate.getDate() !== paymentDayNumber) {
+    nextDate.setDate(paymentDayNumber);
+  }
+  return adjustToBusinessDay(
+    startOfDay(addMonths(nextDate, 1)),
+    moveHolidayToNextDay ? "FOLLOWING" : "UNADJUSTED",
+    weekendCalendar
+  );
+}
+
+/**
+ * Days in the month and the year of the payment date under the day count
+ * basis, 30 and 360 for ACTUAL_360.
+ * @deprecated Use `getYearFraction`, interest is accrued on the fraction of a
+ * year between two dates.
+ */
+export function getMonthDaysAndYearDays(
+  paymentDate: Date,
+  dayCountBasis: "ACTUAL_365" | "ACTUAL_360" | "ACTUAL_ACTUAL"
+): { daysInYear: number; daysInMonth: number } {
+  switch (dayCountBasis) {
+    case "ACTUAL_365": {
+      // 29 February is not counted in a 365-day year
+      const daysInMonth = getDaysInMonth(paymentDate);
+      return {
+        daysInYear: 365,
+        daysInMonth: daysInMonth === 29 ? 28 : daysInMonth,
+      };
+    }
+    case "ACTUAL_ACTUAL":
+      return {
+        daysInYear: isLeapYear(paymentDate) ? 366 : 365,
+        daysInMonth: getDaysInMonth(paymentDate),
+      };
+    default:
+      return { daysInYear: 360, daysInMonth: 30 };
+  }
+}
+
+/** Annuity payment before rounding. */
+function getAnnuityPaymentValue(dto: {
+  principal: number;
+  periodInterestRate: number;
+  periods: number;
+  balloonAmount?: number;
+}): number {
+  const { principal, periodInterestRate, periods, balloonAmount = 0 } = dto;
+  if (periodInterestRate === 0) {
+    return (principal - balloonAmount) / periods;
+  }
+  return (
+    ((principal * Math.pow(1 + periodInterestRate, periods) - balloonAmount) *
+      periodInterestRate) /
+    (Math.pow(1 + periodInterestRate, periods) - 1)
+  );
+}
+
+/** Annuity payment over the remaining term, in minor units. */
+function calculateRemainingAnnuityPayment(
+  sharedParams: LoanCalcSharedParams
+): MinorUnits {
+  return roundToMinorUnits(
+    getAnnuityPaymentValue({
+      principal: sharedParams.remainingPrincipal,
+      periodInterestRate: sharedParams.periodInterestRate,
+      periods: Math.max(sharedParams.periodsToCalculate, 1),
+      balloonAmount: getBalloonAmount(sharedParams),
+    }),
+    sharedParams.roundingMode
+  );
+}
+
+/**
+ * Full cost of credit (ПСК) as defined by Federal Law 353-FZ and the effective
+ * annual rate of the borrower's cashflows. The amount issued is an outflow,
+ * payments and fees are inflows.
+ */
+export function calculateLoanCost(params: LoanCostParams): LoanCost {
+  const { schedule, issueAmount, fees = [] } = params;
+  const issueDate = new Date(params.issueDate);
+  issueDate.setHours(0, 0, 0, 0);
+
+  const amountsByDate = new Map<number, number>();
+  const addCashflow = (date: Date, amount: number) => {
+    const day = new Date(date);
+    day.setHours(0, 0, 0, 0);
+    const time = day.getTime();
+    amountsByDate.set(time, (amountsByDate.get(time) ?? 0) + amount);
+  };
+  addCashflow(issueDate, -issueAmount);
+  fees.forEach((fee) => addCashflow(new Date(fee.date), fee.amount));
+  schedule.forEach((entry) =>
+    addCashflow(entry.paymentDate, entry.paymentAmount + (entry.feeAmount ?? 0))
+  );
+
+  const cashflows = [...amountsByDate.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([time, amount]) => ({ date: new Date(time), amount }));
+  const startDate = cashflows[0].date;
+
+  const basePeriod = getBasePeriod(cashflows.map((cashflow) => cashflow.date));
+  const discountedCashflows = cashflows.map((cashflow) => {
+    if (basePeriod.months > 0) {
+      const fullPeriods = Math.floor(
+        differenceInMonths(cashflow.date, startDate) / basePeriod.months
+      );
+      const remainingDays = differenceInCalendarDays(
+        cashflow.date,
+        addMonths(startDate, fullPeriods * basePeriod.months)
+      );
+      return {
+        amount: cashflow.amount,
+        fullPeriods,
+        periodFraction: remainingDays / (365 / basePeriod.periodsPerYear),
+      };
+    }
+    const days = differenceInCalendarDays(cashflow.date, startDate);
+    const fullPeriods = Math.floor(days / basePeriod.days);
+    return {
+      amount: cashflow.amount,
+      fullPeriods,
+      periodFraction: (days - fullPeriods * basePeriod.days) / basePeriod.days,
+    };
+  });
+
+  const periodRate = findRate((rate) =>
+    discountedCashflows.reduce(
+      (sum, cashflow) =>
+        sum +
+        cashflow.amount /
+          ((1 + cashflow.periodFraction * rate) *
+            Math.pow(1 + rate, cashflow.fullPeriods)),
+      0
+    )
+  );
+  const annualRate = findRate((rate) =>
+    cashflows.reduce(
+      (sum, cashflow) =>
+        sum +
+        cashflow.amount /
+          Math.pow(
+            1 + rate,
+            differenceInCalendarDays(cashflow.date, startDate) / 365
+          ),
+      0
+    )
+  );
+
+  return {
+    fullCostPercent: roundDecimals(
+      periodRate * basePeriod.periodsPerYear * 100,
+      3
+    ),
+    effectiveAnnualRatePercent: roundDecimals(annualRate * 100, 3),
+  };
+}
+
+export function roundDecimals(
+  value: number,
+  decimals: number,
+  roundingMode: RoundingMode = "HALF_UP"
+): number {
+  return roundMoney(value, decimals, roundingMode);
+}
+
+function getAnnualInterestRatePercent(
+  rateSchedule: RateChangeRecord[],
+  date: Date
+): number {
+  let annualInterestRatePercent = rateSchedule[0].annualInterestRatePercent;
+  for (const rateChange of rateSchedule) {
+    if (rateChange.effectiveDate > date) {
+      break;
+    }
+    annualInterestRatePercent = rateChange.annualInterestRatePercent;
+  }
+  return annualInterestRatePercent;
+}
+
+/**
+ * Interest accrued on the remaining principal between two dates, one accrual
+ * per rate. Days before and after a rate change are charged at their own rate.
+ */
+function getInterestAccruals(
+  sharedParams: LoanCalcSharedParams,
+  dateFrom: Date,
+  dateTo: Date
+): InterestAccrualTrace<MinorUnits>[] {
+  const accruals: InterestAccrualTrace<MinorUnits>[] = [];
+  const addAccrual = (
+    periodStart: Date,
+    periodEnd: Date,
+    annualInterestRatePercent: number
+  ) => {
+    const yearFraction = getYearFraction(
+      periodStart,
+      periodEnd,
+      sharedParams.dayCountBasis,
+      {
+        periodStart: sharedParams.currentDate,
+        periodEnd: sharedParams.nextDate,
+        paymentsPerYear: sharedParams.paymentsPerYear,
+      }
+    );
+    accruals.push({
+      periodStart,
+      periodEnd,
+      days: differenceInCalendarDays(periodEnd, periodStart),
+      yearFraction,
+      annualInterestRatePercent,
+      principal: sharedParams.remainingPrincipal,
+      // Kept unrounded, the sum of the accruals is rounded once
+      interestAmount: (sharedParams.remainingPrincipal *
+        (annualInterestRatePercent / 100) *
+        yearFraction) as MinorUnits,
+    });
+  };
+  let periodStart = dateFrom;
+  let annualInterestRatePercent = getAnnualInterestRatePercent(
+    sharedParams.rateSchedule,
+    dateFrom
+  );
+  for (const rateChange of sharedParams.rateSchedule) {
+    if (rateChange.effectiveDate <= dateFrom) {
+      continue;
+    }
+    if (rateChange.effectiveDate >= dateTo) {
+      break;
+    }
+    addAccrual(
+      periodStart,
+      rateChange.effectiveDate,
+      annualInterestRatePercent
+    );
+    periodStart = rateChange.effectiveDate;
+    annualInterestRatePercent = rateChange.annualInterestRatePercent;
+  }
+  addAccrual(periodStart, dateTo, annualInterestRatePercent);
+  return accruals;
+}
+
+function sumAccruals(accruals: InterestAccrualTrace<MinorUnits>[]): MinorUnits {
+  return accruals.reduce(
+    (sum, accrual) => (sum + accrual.interestAmount) as MinorUnits,
+    ZERO_MINOR_UNITS
+  );
+}
+
+/** Interest accrued between two dates, rounded to minor units. */
+function calculateInterestAmount(
+  sharedParams: LoanCalcSharedParams,
+  dateFrom: Date,
+  dateTo: Date
+): MinorUnits {
+  return roundToMinorUnits(
+    sumAccruals(getInterestAccruals(sharedParams, dateFrom, dateTo)),
+    sharedParams.roundingMode
+  );
+}
+
+/**
+ * Trace of the interest charged between two dates, undefined unless tracing
+ * is on. Interest carried over from an early repayment replaces the accrual.
+ */
+function getEntryTrace(
+  sharedParams: LoanCalcSharedParams,
+  dateFrom: Date,
+  dateTo: Date,
+  carriedOverInterestAmount: MinorUnits = ZERO_MINOR_UNITS
+): LoanEntryTrace<MinorUnits> | undefined {
+  if (!sharedParams.includeTrace) {
+    return undefined;
+  }
+  const accruals =
+    carriedOverInterestAmount != 0
+      ? []
+      : getInterestAccruals(sharedParams, dateFrom, dateTo);
+  const accruedInterestAmount = sumAccruals(accruals);
+  return {
+    periodStart: dateFrom,
+    periodEnd: dateTo,
+    days: differenceInCalendarDays(dateTo, dateFrom),
+    dayCountBasis: sharedParams.dayCountBasis,
+    accruals,
+    accruedInterestAmount,
+    roundingDecimals: sharedParams.roundingDecimals,
+    roundingMode: sharedParams.roundingMode,
+    interestAmount:
+      carriedOverInterestAmount != 0
+        ? carriedOverInterestAmount
+        : roundToMinorUnits(accruedInterestAmount, sharedParams.roundingMode),
+    ...(carriedOverInterestAmount != 0 && { carriedOverInterestAmount }),
+  };
+}
+
+/** The trace with amounts converted from minor units. */
+function fromMinorUnitsTrace(
+  trace: LoanEntryTrace<MinorUnits>,
+  roundingDecimals: number
+): LoanEntryTrace {
+  const fromMinor = (amount: MinorUnits) =>
+    fromMinorUnits(amount, roundingDecimals);
+  return {
+    ...trace,
+    accruals: trace.accruals.map((accrual) => ({
+      ...accrual,
+      principal: fromMinor(accrual.principal),
+      interestAmount: fromMinor(accrual.interestAmount),
+    })),
+    accruedInterestAmount: fromMinor(trace.accruedInterestAmount),
+    interestAmount: fromMinor(trace.interestAmount),
+    ...(trace.carriedOverInterestAmount !== undefined && {
+      carriedOverInterestAmount: fromMinor(trace.carriedOverInterestAmount),
+    }),
+    ...(trace.bookedInterestAmount !== undefined && {
+      bookedInterestAmount: fromMinor(trace.bookedInterestAmount),
+      carriedForwardInterestAmount: fromMinor(
+        trace.carriedForwardInterestAmount
+      ),
+    }),
+    ...(trace.deferredInterestAmount !== undefined && {
+      deferredInterestAmount: fromMinor(trace.deferredInterestAmount),
+    }),
+    ...(trace.annuityPayment !== undefined && {
+      annuityPayment: fromMinor(trace.annuityPayment),
+    }),
+  };
+}
+
+/**
+ * Switches to the rate in effect at the end of the current period and, for
+ * annuity loans, recalculates the payment over the remaining term.
+ */
+function applyRateChanges(sharedParams: LoanCalcSharedParams): void {
+  const annualInterestRatePercent = getAnnualInterestRatePercent(
+    sharedParams.rateSchedule,
+    sharedParams.nextDate
+  );
+  if (annualInterestRatePercent === sharedParams.annualInterestRatePercent) {
+    return;
+  }
+  sharedParams.annualInterestRatePercent = annualInterestRatePercent;
+  sharedParams.periodInterestRate =
+    annualInterestRatePercent / sharedParams.paymentsPerYear / 100;
+  if (sharedParams.loanType === "ANNUITY") {
+    sharedParams.annuityPayment =
+      calculateRemainingAnnuityPayment(sharedParams);
+  }
+}
+
+/**
+ * Adds fees to the schedule. Periodic and percent fees are charged with the
+ * regular payments, percent fees on the principal remaining before the
+ * payment. One-off fees falling between payments get a row of their own.
+ */
+function applyFees(
+  schedule: LoanScheduleEntry<MinorUnits>[],
+  fees: LoanFeeParams[],
+  issueDate: Date,
+  principal: MinorUnits,
+  paymentsPerYear: number,
+  roundingDecimals: number,
+  roundingMode: RoundingMode
+): LoanScheduleEntry<MinorUnits>[] {
+  const feeSchedule = schedule.map((entry) => ({ ...entry }));
+  const addFee = (
+    entry: LoanScheduleEntry<MinorUnits>,
+    name: string,
+    amount: number
+  ) => {
+    const feeAmount = roundToMinorUnits(amount, roundingMode);
+    entry.fees = {
+      ...entry.fees,
+      [name]: roundToMinorUnits(
+        (entry.fees?.[name] ?? 0) + feeAmount,
+        roundingMode
+      ),
+    };
+    entry.feeAmount = roundToMinorUnits(
+      (entry.feeAmount ?? 0) + feeAmount,
+      roundingMode
+    );
+  };
+
+  const periodMonths = { MONTHLY: 1, QUARTERLY: 3, YEARLY: 12 };
+  // Fee periods started up to the end of a payment period, the fee of every
+  // period is charged with the first payment falling into it
+  const getFeePeriodsStarted = (paymentNumber: number, feeMonths: number) =>
+    Math.ceil(
+      roundDecimals((paymentNumber * 12) / paymentsPerYear / feeMonths, 6)
+    );
+  let regularPaymentNumber = 0;
+  for (const entry of feeSchedule) {
+    if (entry.isEarlyRepayment) {
+      continue;
+    }
+    for (const fee of fees) {
+      if (fee.type === "ONE_OFF") {
+        continue;
+      }
+      const feeMonths = periodMonths[fee.periodicity ?? "MONTHLY"];
+      const feePeriods =
+        getFeePeriodsStarted(regularPaymentNumber + 1, feeMonths) -
+        getFeePeriodsStarted(regularPaymentNumber, feeMonths);
+      if (feePeriods === 0) {
+        continue;
+      }
+      addFee(
+        entry,
+        fee.name,
+        (fee.type === "PERIODIC"
+          ? toMinorUnits(fee.amount, roundingDecimals, roundingMode)
+          : ((entry.remainingPrincipal + entry.principalAmount) * fee.amount) /
+            100) * feePeriods
+      );
+    }
+    regularPaymentNumber++;
+  }
+
+  for (const fee of fees) {
+    if (fee.type !== "ONE_OFF") {
+      continue;
+    }
+    const feeDate = fee.date ? new Date(fee.date) : new Date(issueDate);
+    feeDate.setHours(0, 0, 0, 0);
+    const entry = feeSchedule.find(
+      (entry) => entry.paymentDate.getTime() === feeDate.getTime()
+    );
+    if (entry) {
+      addFee(
+        entry,
+        fee.name,
+        toMinorUnits(fee.amount, roundingDecimals, roundingMode)
+      );
+      continue;
+    }
+    const index = feeSchedule.findIndex((entry) => entry.paymentDate > feeDate);
+    const insertAt = index === -1 ? feeSchedule.length : index;
+    const feeEntry: LoanScheduleEntry<MinorUnits> = {
+      paymentDate: feeDate,
+      paymentAmount: ZERO_MINOR_UNITS,
+      interestAmount: ZERO_MINOR_UNITS,
+      principalAmount: ZERO_MINOR_UNITS,
+      remainingPrincipal:
+        insertAt > 0 ? feeSchedule[insertAt - 1].remainingPrincipal : principal,
+    };
+    addFee(
+      feeEntry,
+      fee.name,
+      toMinorUnits(fee.amount, roundingDecimals, roundingMode)
+    );
+    feeSchedule.splice(insertAt, 0, feeEntry);
+  }
+
+  return feeSchedule;
+}
+
+/**
+ * The base period is the most frequent interval between cashflows. Intervals
+ * close to a calendar month, quarter, half-year or year count as such.
+ */
+function getBasePeriod(dates: Date[]): {
+  months: number;
+  days: number;
+  periodsPerYear: number;
+} {
+  const monthRanges = [
+    { months: 1, minDays: 28, maxDays: 31 },
+    { months: 3, minDays: 89, maxDays: 92 },
+    { months: 6, minDays: 181, maxDays: 184 },
+    { months: 12, minDays: 365, maxDays: 366 },
+  ];
+  const frequency = new Map<string, number>();
+  for (let index = 1; index < dates.length; index++) {
+    const days = differenceInCalendarDays(dates[index], dates[index - 1]);
+    const monthRange = monthRanges.find(
+      (range) => days >= range.minDays && days <= range.maxDays
+    );
+    const key = monthRange ? `m${monthRange.months}` : `d${days}`;
+    frequency.set(key, (frequency.get(key) ?? 0) + 1);
+  }
+
+  const [basePeriodKey] = [...frequency.entries()].sort(
+    (a, b) => b[1] - a[1]
+  )[0] ?? ["m1"];
+  const value = Number(basePeriodKey.slice(1));
+  if (basePeriodKey.startsWith("m")) {
+    return { months: value, days: 0, periodsPerYear: 12 / value };
+  }
+  return { months: 0, days: value, periodsPerYear: 365 / value };
+}
+
+/**
+ * Finds the rate at which the discounted cashflows sum up to zero. The
+ * function is expected to decrease as the rate grows.
+ */
+function findRate(presentValue: (rate: number) => number): number {
+  let low = -0.99;
+  let high = 1;
+  while (presentValue(high) > 0 && high < 1e6) {
+    high = high * 2;
+  }
+  if (presentValue(low) < 0 || presentValue(high) > 0) {
+    return NaN;
+  }
+  for (let iteration = 0; iteration < 200; iteration++) {
+    const middle = (low + high) / 2;
+    if (presentValue(middle) > 0) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * Books a holiday period. Capitalized interest shows up as a negative
+ * principal amount, so the schedule totals still add up.
+ */
+function applyPaymentHoliday(
+  sharedParams: LoanCalcSharedParams,
+  type: PaymentHolidayType,
+  interestAmount: MinorUnits
+): LoanScheduleEntry<MinorUnits> {
+  switch (type) {
+    case "INTEREST_ONLY":
+      return {
+        paymentDate: sharedParams.nextDate,
+        paymentAmount: interestAmount,
+        interestAmount,
+        principalAmount: ZERO_MINOR_UNITS,
+        remainingPrincipal: sharedParams.remainingPrincipal,
+        paymentHoliday: type,
+      };
+    case "CAPITALIZE":
+      sharedParams.remainingPrincipal = roundToMinorUnits(
+        sharedParams.remainingPrincipal + interestAmount,
+        sharedParams.roundingMode
+      );
+      return {
+        paymentDate: sharedParams.nextDate,
+        paymentAmount: ZERO_MINOR_UNITS,
+        interestAmount,
+        principalAmount: roundToMinorUnits(-interestAmount),
+        remainingPrincipal: sharedParams.remainingPrincipal,
+        paymentHoliday: type,
+      };
+    case "DEFER":
+      sharedParams.deferredInterestAmount = roundToMinorUnits(
+        sharedParams.deferredInterestAmount + interestAmount,
+        sharedParams.roundingMode
+      );
+      return {
+        paymentDate: sharedParams.nextDate,
+        paymentAmount: ZERO_MINOR_UNITS,
+        interestAmount: ZERO_MINOR_UNITS,
+        principalAmount: ZERO_MINOR_UNITS,
+        remainingPrincipal: sharedParams.remainingPrincipal,
+        paymentHoliday: type,
+      };
+  }
+}
+
+/** Balloon part of the remaining principal, less after large prepayments. */
+function getBalloonAmount(sharedParams: LoanCalcSharedParams): MinorUnits {
+  return Math.min(
+    sharedParams.balloonAmount,
+    sharedParams.remainingPrincipal
+  ) as MinorUnits;
+}
+
+/** Spreads the remaining principal over the remaining term. */
+function recalculatePayment(sharedParams: LoanCalcSharedParams): void {
+  const periods = Math.max(sharedParams.periodsToCalculate, 1);
+  if (sharedParams.loanType === "ANNUITY") {
+    sharedParams.annuityPayment =
+      calculateRemainingAnnuityPayment(sharedParams);
+  } else {
+    sharedParams.amortizationPrincipal = roundToMinorUnits(
+      (sharedParams.remainingPrincipal - getBalloonAmount(sharedParams)) /
+        periods,
+      sharedParams.roundingMode
+    );
+  }
+}
+
+function getNextEarlyRepayment(
+  earlyRepaymentRecords: Record<number, EarlyRepaymentRecord>,
+  currentDate: Date,
+  nextDate: Date
+): EarlyRepaymentRecord[] {
+  if (Object.keys(earlyRepaymentRecords).length === 0) {
+    return [];
+  }
+  const earlyRepayments = Object.values(earlyRepaymentRecords);
+  const orderByDate = (a: EarlyRepaymentRecord, b: EarlyRepaymentRecord) => {
+    return a.earlyRepaymentDate.getTime() - b.earlyRepaymentDate.getTime();
+  };
+  const onceEarlyRepayments = earlyRepayments
+    .filter((earlyRepayment) => {
+      return earlyRepayment.periodicity === "ONCE";
+    })
+    .sort(orderByDate);
+  const monthlyEarlyRepayments = earlyRepayments
+    .filter((earlyRepayment) => {
+      return earlyRepayment.periodicity === "MONTHLY";
+    })
+    .sort(orderByDate);
+  const quarterlyEarlyRepayments = earlyRepayments
+    .filter((earlyRepayment) => {
+      return earlyRepayment.periodicity === "QUARTERLY";
+    })
+    .sort(orderByDate);
+  const yearlyEarlyRepayments = earlyRepayments
+    .filter((earlyRepayment) => {
+      return earlyRepayment.periodicity === "YEARLY";
+    })
+    .sort(orderByDate);
+
+  const nextRepayments = [
+    onceEarlyRepayments[0],
+    monthlyEarlyRepayments[0],
+    quarterlyEarlyRepayments[0],
+    yearlyEarlyRepayments[0],
+  ]
+    .filter((earlyRepayment) => {
+      if (!earlyRepayment) {
+        return false;
+      }
+
+      if (
+        earlyRepayment.earlyRepaymentDateEnd &&
+        currentDate > earlyRepayment.earlyRepaymentDateEnd
+      ) {
+        return false;
+      }
+
+      return (
+        currentDate < earlyRepayment.earlyRepaymentDate &&
+        nextDate >= earlyRepayment.earlyRepaymentDate
+      );
+    })
+    .sort(orderByDate);
+
+  return nextRepayments;
+}
+
+function applyEarlyRepayments(
+  sharedParams: LoanCalcSharedParams,
+  orderedEarlyRepayments: EarlyRepaymentRecord[]
+): {
+  updatedSharedParams: LoanCalcSharedParams;
+  loanSchedule: LoanScheduleEntry<MinorUnits>[];
+  deletedEarlyRepayments: EarlyRepaymentRecord[];
+  updatedEarlyRepayments: EarlyRepaymentRecord[];
+} {
+  let updatedSharedParams = { ...sharedParams };
+  const deletedEarlyRepayments = [];
+  const updatedEarlyRepayments = [];
+  const loanSchedule = [];
+
+  for (const earlyRepayment of orderedEarlyRepayments) {
+    const result = applyEarlyRepayment(sharedParams, earlyRepayment);
+    updatedSharedParams = result.updatedSharedParams;
+    loanSchedule.push(...result.loanSchedule);
+    if (updatedSharedParams.remainingPrincipal <= 0) {
+      updatedSharedParams.remainingPrincipal = ZERO_MINOR_UNITS;
+      break;
+    }
+    if (result.deleteEarlyRepayment) {
+      deletedEarlyRepayments.push(earlyRepayment);
+    }
+    if (result.updatedEarlyRepayment) {
+      updatedEarlyRepayments.push(result.updatedEarlyRepayment);
+    }
+  }
+
+  return {
+    updatedSharedParams,
+    loanSchedule,
+    deletedEarlyRepayments,
+    updatedEarlyRepayments,
+  };
+}
+
+function applyEarlyRepayment(
+  sharedParams: LoanCalcSharedParams,
+  earlyRepayment: EarlyRepaymentRecord
+): {
+  updatedSharedParams: LoanCalcSharedParams;
+  loanSchedule: LoanScheduleEntry<MinorUnits>[];
+  deleteEarlyRepayment: boolean;
+  updatedEarlyRepayment?: EarlyRepaymentRecord;
+} {
+  if (sharedParams.remainingPrincipal <= 0) {
+    return {
+      updatedSharedParams: sharedParams,
+      loanSchedule: [],
+      deleteEarlyRepayment: false,
+    };
+  }
+
+  let updatedSharedParams = { ...sharedParams };
+  const loanSchedule: LoanScheduleEntry<MinorUnits>[] = [];
+  let deleteEarlyRepayment = false;
+  let updatedEarlyRepayment = earlyRepayment;
+
+  // A rule may come to nothing, e.g. the payment is already round
+  const amount = getEarlyRepaymentAmount(sharedParams, earlyRepayment);
+  if (amount > 0) {
+    const interestAmount = calculateInterestAmount(
+      sharedParams,
+      sharedParams.currentDate,
+      earlyRepayment.earlyRepaymentDate
+    );
+    const trace = getEntryTrace(
+      sharedParams,
+      sharedParams.currentDate,
+      earlyRepayment.earlyRepaymentDate
+    );
+
+    if (amount <= interestAmount) {
+      updatedSharedParams.remainingInterestAmount = roundToMinorUnits(
+        interestAmount - amount,
+        sharedParams.roundingMode
+      );
+      if (trace) {
+        trace.bookedInterestAmount = amount;
+        trace.carriedForwardInterestAmount =
+          updatedSharedParams.remainingInterestAmount;
+      }
+
+      loanSchedule.push({
+        paymentDate: earlyRepayment.earlyRepaymentDate,
+        paymentAmount: amount,
+        interestAmount: amount,
+        principalAmount: ZERO_MINOR_UNITS,
+        remainingPrincipal: sharedParams.remainingPrincipal,
+        isEarlyRepayment: true,
+        ...(trace && { trace }),
+      });
+    } else {
+      let paymentAmount = amount;
+      let principalAmount = roundToMinorUnits(
+        amount - interestAmount,
+        sharedParams.roundingMode
+      );
+
+      updatedSharedParams.remainingPrincipal = roundToMinorUnits(
+        updatedSharedParams.remainingPrincipal - principalAmount,
+        sharedParams.roundingMode
+      );
+
+      if (updatedSharedParams.remainingPrincipal < 0) {
+        principalAmount = roundToMinorUnits(
+          principalAmount + updatedSharedParams.remainingPrincipal
+        );
+        paymentAmount = roundToMinorUnits(
+          paymentAmount + updatedSharedParams.remainingPrincipal
+        );
+        updatedSharedParams.remainingPrincipal = ZERO_MINOR_UNITS;
+      }
+      loanSchedule.push({
+        paymentDate: earlyRepayment.earlyRepaymentDate,
+        paymentAmount,
+        interestAmount,
+        principalAmount,
+        remainingPrincipal: updatedSharedParams.remainingPrincipal,
+        isEarlyRepayment: true,
+        ...(trace && { trace }),
+      });
+    }
+
+    if (
+      sharedParams.loanType === "ANNUITY" &&
+      earlyRepayment.repaymentType === "DECREASE_PAYMENT"
+    ) {
+      updatedSharedParams.annuityPayment =
+        calculateRemainingAnnuityPayment(updatedSharedParams);
+    }
+
+    // With DECREASE_TERM the principal part stays, the loan ends sooner
+    if (
+      sharedParams.loanType === "AMORTIZATION" &&
+      earlyRepayment.repaymentType === "DECREASE_PAYMENT"
+    ) {
+      updatedSharedParams.amortizationPrincipal = roundToMinorUnits(
+        (updatedSharedParams.remainingPrincipal -
+          getBalloonAmount(updatedSharedParams)) /
+          Math.max(updatedSharedParams.periodsToCalculate, 1),
+        sharedParams.roundingMode
+      );
+    }
+
+    updatedSharedParams.previousDate = updatedSharedParams.currentDate;
+    updatedSharedParams.currentDate = earlyRepayment.earlyRepaymentDate;
+  }
+
+  if (earlyRepayment.periodicity === "ONCE") {
+    deleteEarlyRepayment = true;
+    updatedEarlyRepayment = undefined;
+  } else {
+    updatedEarlyRepayment.earlyRepaymentDate =
+      getNextEarlyRepaymentDate(earlyRepayment);
+  }
+
+  if (
+    updatedEarlyRepayment &&
+    updatedEarlyRepayment.earlyRepaymentDate < updatedSharedParams.nextDate
+  ) {
+    const nextRepayment = applyEarlyRepayment(
+      updatedSharedParams,
+      updatedEarlyRepayment
+    );
+    loanSchedule.push(...nextRepayment.loanSchedule);
+    updatedSharedParams = nextRepayment.updatedSharedParams;
+    deleteEarlyRepayment = nextRepayment.deleteEarlyRepayment;
+    updatedEarlyRepayment = nextRepayment.updatedEarlyRepayment;
+  }
+
+  if (
+    updatedEarlyRepayment &&
+    updatedEarlyRepayment.earlyRepaymentDate >
+      updatedEarlyRepayment.earlyRepaymentDateEnd
+  ) {
+    deleteEarlyRepayment = true;
+    updatedEarlyRepayment = undefined;
+  }
+
+  return {
+    updatedSharedParams,
+    loanSchedule,
+    deleteEarlyRepayment,
+    updatedEarlyRepayment,
+  };
+}
+
+const EARLY_REPAYMENT_MONTHS = { MONTHLY: 1, QUARTERLY: 3, YEARLY: 12 };
+
+/** Amount of one occurrence of the early repayment in minor units. */
+function getEarlyRepaymentAmount(
+  sharedParams: LoanCalcSharedParams,
+  earlyRepayment: EarlyRepaymentRecord
+): MinorUnits {
+  const { regularPaymentAmount, roundingMode } = sharedParams;
+  const value = earlyRepayment.earlyRepaymentAmount;
+  switch (earlyRepayment.earlyRepaymentAmountType ?? "AMOUNT") {
+    case "AMOUNT":
+      return roundToMinorUnits(value, roundingMode);
+    case "PERCENT_OF_BALANCE":
+      return roundToMinorUnits(
+        (sharedParams.remainingPrincipal * value) / 100,
+        sharedParams.roundingMode
+      );
+    case "ROUND_UP_PAYMENT":
+      if (regularPaymentAmount === undefined || value <= 0) {
+        return ZERO_MINOR_UNITS;
+      }
+      return roundToMinorUnits(
+        Math.ceil(regularPaymentAmount / value) * value - regularPaymentAmount,
+        roundingMode
+      );
+    case "PAYMENT_BUDGET":
+      if (regularPaymentAmount === undefined) {
+        return ZERO_MINOR_UNITS;
+      }
+      return roundToMinorUnits(
+        Math.max(value - regularPaymentAmount, 0),
+        roundingMode
+      );
+  }
+}
+
+/** Date a periodic early repayment is made next time. */
+function getNextEarlyRepaymentDate(earlyRepayment: EarlyRepaymentRecord): Date {
+  return addMonths(
+    earlyRepayment.earlyRepaymentDate,
+    EARLY_REPAYMENT_MONTHS[earlyRepayment.periodicity]
+  );
+}
+
+/**
+ * Adds the early repayments falling into the period just paid to its row.
+ * The regular payment is booked first, interest for the period is already
+ * paid, so the whole amount reduces the principal.
+ */
+function applyEarlyRepaymentsWithPayment(
+  sharedParams: LoanCalcSharedParams,
+  entry: LoanScheduleEntry<MinorUnits>,
+  earlyRepaymentRecords: Record<number, EarlyRepaymentRecord>,
+  periodStart: Date
+): void {
+  const isInPeriod = (earlyRepayment: EarlyRepaymentRecord) =>
+    earlyRepayment.earlyRepaymentDate > periodStart &&
+    earlyRepayment.earlyRepaymentDate <= entry.paymentDate;
+  const earlyRepayments = Object.values(earlyRepaymentRecords)
+    .filter(isInPeriod)
+    .sort(
+      (a, b) => a.earlyRepaymentDate.getTime() - b.earlyRepaymentDate.getTime()
+    );
+
+  for (const earlyRepayment of earlyRepayments) {
+    // A periodic repayment more frequent than the payments is paid once per
+    // occurrence
+    while (
+      earlyRepaymentRecords[earlyRepayment.id] &&
+      isInPeriod(earlyRepayment)
+    ) {
+      const amount = Math.min(
+        getEarlyRepaymentAmount(sharedParams, earlyRepayment),
+        sharedParams.remainingPrincipal
+      );
+      sharedParams.remainingPrincipal = roundToMinorUnits(
+        sharedParams.remainingPrincipal - amount,
+        sharedParams.roundingMode
+      );
+      entry.paymentAmount = roundToMinorUnits(
+        entry.paymentAmount + amount,
+        sharedParams.roundingMode
+      );
+      entry.principalAmount = roundToMinorUnits(
+        entry.principalAmount + amount,
+        sharedParams.roundingMode
+      );
+      entry.remainingPrincipal = sharedParams.remainingPrincipal;
+      entry.earlyRepaymentAmount = roundToMinorUnits(
+        (entry.earlyRepaymentAmount ?? 0) + amount,
+        sharedParams.roundingMode
+      );
+      if (earlyRepayment.repaymentType === "DECREASE_PAYMENT") {
+        recalculatePayment(sharedParams);
+      }
+
+      if (earlyRepayment.periodicity === "ONCE") {
+        delete earlyRepaymentRecords[earlyRepayment.id];
+        continue;
+      }
+      earlyRepayment.earlyRepaymentDate =
+        getNextEarlyRepaymentDate(earlyRepayment);
+      if (
+        earlyRepayment.earlyRepaymentDateEnd &&
+        earlyRepayment.earlyRepaymentDate > earlyRepayment.earlyRepaymentDateEnd
+      ) {
+        delete earlyRepaymentRecords[earlyRepayment.id];
+      }
+    }
+  }
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { LoanSolveError, getSolveErrorMessage } from "./errors";
+import { LoanScheduleParams, generateLoanSchedule } from "./loan-lib";
+import { LoanSolverParams, solveLoan } from "./loan-solver";
+
+const params: LoanScheduleParams = {
+  principal: 120000,
+  annualInterestRatePercent: 12,
+  loanType: "ANNUITY",
+  termMonths: 12,
+  issueDate: new Date(2025, 0, 10),
+};
+
+const { startMonthlyPayment } = generateLoanSchedule(params);
+
+function solve(
+  solveFor: LoanSolverParams["solveFor"],
+  extra: Partial<LoanSolverParams> = {}
+) {
+  return solveLoan({
+    ...params,
+    paymentAmount: startMonthlyPayment,
+    ...extra,
+    solveFor,
+    [solveFor]: undefined,
+  });
+}
+
+describe("annuity solver", () => {
+  it("finds the payment the last payment equals", () => {
+    // The formula payment ignores the actual days, the last one makes up for it
+    const { paymentAmount, schedule } = solve("paymentAmount");
+
+    expect(paymentAmount).toBe(10659.07);
+    expect(schedule).toHaveLength(12);
+    expect(schedule[11].paymentAmount).toBeCloseTo(paymentAmount, 0);
+    expect(schedule[11].remainingPrincipal).toBe(0);
+  });
+
+  it("finds the principal and rate back from the payment", () => {
+    const paymentAmount = 10659.07;
+
+    expect(solve("principal", { paymentAmount }).principal).toBeCloseTo(
+      120000,
+      0
+    );
+    // The payment is rounded to kopecks, the rate to 4 decimals
+    expect(
+      solve("annualInterestRatePercent", { paymentAmount })
+        .annualInterestRatePercent
+    ).toBeCloseTo(12, 3);
+  });
+
+  it("finds the shortest term the payment repays the loan in", () => {
+    expect(solve("termMonths").termMonths).toBe(12);
+    expect(solve("termMonths", { paymentAmount: 5000 }).termMonths).toBe(28);
+  });
+
+  it("reports a payment that never repays the loan", () => {
+    let error: unknown;
+    try {
+      solve("termMonths", { paymentAmount: 1000 });
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(LoanSolveError);
+    expect(error).toMatchObject({ code: "NO_SOLUTION" });
+    expect(getSolveErrorMessage(error as LoanSolveError, "en")).toBe(
+      "no solution within the supported range"
+    );
+    expect(getSolveErrorMessage(error as LoanSolveError)).toBe(
+      "Не удалось подобрать значение при заданных параметрах"
+    );
+  });
+});
+
+describe("amortization solver", () => {
+  const amortization = { loanType: "AMORTIZATION" as const };
+
+  it("solves for the first payment", () => {
+    const { schedule } = generateLoanSchedule({ ...params, ...amortization });
+    const firstPayment = schedule[0].paymentAmount;
+
+    expect(
+      solve("principal", { ...amortization, paymentAmount: firstPayment })
+        .principal
+    ).toBeCloseTo(120000, 0);
+    expect(
+      solve("termMonths", { ...amortization, paymentAmount: firstPayment })
+        .termMonths
+    ).toBe(12);
+  });
+
+  it("rejects the payment as the target", () => {
+    expect(() => solve("paymentAmount", amortization)).toThrow(
+      expect.objectContaining({
+        code: "UNSUPPORTED_SOLVE_TARGET",
+        path: ["solveFor"],
+      })
+    );
+  });
+});
@@ -0,0 +1,256 @@
+import {
+  LoanScheduleEntry,
+  LoanScheduleParams,
+  LoanScheduleTotals,
+  PAYMENTS_PER_YEAR,
+  generateLoanSchedule,
+  getPaymentPeriods,
+  roundDecimals,
+} from "./loan-lib";
+import { LoanParamsError, LoanSolveError } from "./errors";
+import { fromMinorUnits, roundToMinorUnits } from "./money";
+import { MAX_TERM_MONTHS, validateLoanSolverParams } from "./validation";
+
+export type LoanSolveTarget =
+  "principal" | "annualInterestRatePercent" | "termMonths" | "paymentAmount";
+
+export type LoanSolverParams = Omit<
+  LoanScheduleParams,
+  "principal" | "annualInterestRatePercent" | "termMonths" | "annuityPayment"
+> & {
+  solveFor: LoanSolveTarget;
+  principal?: number;
+  annualInterestRatePercent?: number;
+  termMonths?: number;
+  /**
+   * Regular payment: the fixed payment of an annuity loan or the first, the
+   * largest, payment of an amortization loan.
+   */
+  paymentAmount?: number;
+};
+
+export interface LoanSolverResult {
+  principal: number;
+  annualInterestRatePercent: number;
+  termMonths: number;
+  paymentAmount: number;
+  /** Parameters that reproduce the solved schedule. */
+  scheduleParams: LoanScheduleParams;
+  schedule: LoanScheduleEntry[];
+  startMonthlyPayment: number;
+  totals: LoanScheduleTotals;
+}
+
+interface LoanSolverValues {
+  principal: number;
+  annualInterestRatePercent: number;
+  termMonths: number;
+  paymentAmount: number;
+}
+
+const MAX_ANNUAL_INTEREST_RATE_PERCENT = 1000;
+const BISECTION_ITERATIONS = 200;
+
+/**
+ * Solves for one unknown among principal, rate, term and payment. Every guess
+ * is checked against the schedule built by `generateLoanSchedule`, so the
+ * result accounts for the day count, payment dates and everything else the
+ * schedule does. An annuity is solved for the fixed payment that pays the
+ * loan off exactly, an amortization loan for its first payment. The payment of
+ * an amortization loan follows from the other parameters, it is not a target.
+ */
+export function solveLoan(params: LoanSolverParams): LoanSolverResult {
+  const { solveFor, paymentAmount, ...loanParams } = params;
+  const roundingDecimals = params.roundingDecimals ?? 2;
+  const isAnnuity = (params.loanType ?? "ANNUITY") === "ANNUITY";
+  const monthsPerPayment =
+    12 / PAYMENTS_PER_YEAR[params.paymentFrequency ?? "MONTHLY"];
+
+  const issues = validateLoanSolverParams(params);
+  if (issues.length > 0) {
+    throw new LoanParamsError(issues);
+  }
+
+  const values: LoanSolverValues = {
+    principal: params.principal ?? 0,
+    annualInterestRatePercent: params.annualInterestRatePercent ?? 0,
+    termMonths: params.termMonths ?? 0,
+    paymentAmount: paymentAmount ?? 0,
+  };
+
+  const getScheduleParams = (
+    solverValues: LoanSolverValues
+  ): LoanScheduleParams => ({
+    ...loanParams,
+    issueDate: new Date(params.issueDate),
+    principal: solverValues.principal,
+    annualInterestRatePercent: solverValues.annualInterestRatePercent,
+    termMonths: solverValues.termMonths,
+    annuityPayment: isAnnuity ? solverValues.paymentAmount : undefined,
+  });
+
+  // Positive when the guess leaves more to pay than the target payment
+  const getResidual = (solverValues: LoanSolverValues): number => {
+    let schedule: LoanScheduleEntry[];
+    try {
+      ({ schedule } = generateLoanSchedule({
+        ...getScheduleParams(solverValues),
+        includeTrace: false,
+      }));
+    } catch (error) {
+      // The payment does not even cover the interest
+      if (
+        error instanceof LoanParamsError &&
+        error.code === "PAYMENT_BELOW_INTEREST"
+      ) {
+        return Infinity;
+      }
+      throw error;
+    }
+    if (!isAnnuity) {
+      return getFirstPaymentAmount(schedule) - solverValues.paymentAmount;
+    }
+    const regularPayments = schedule.filter(
+      (entry) =>
+        !entry.isEarlyRepayment &&
+        (entry.paymentAmount > 0 || entry.paymentHoliday)
+    );
+    // Paid off before the end of the term, the payment is too large
+    if (
+      regularPayments.length <
+      getPaymentPeriods(solverValues.termMonths, params.paymentFrequency)
+    ) {
+      return -solverValues.paymentAmount;
+    }
+    const lastPayment = regularPayments[regularPayments.length - 1];
+    return (
+      lastPayment.paymentAmount -
+      solverValues.paymentAmount -
+      getBalloonAmount(params, solverValues.principal)
+    );
+  };
+
+  const minimalAmount = fromMinorUnits(roundToMinorUnits(1), roundingDecimals);
+  switch (solveFor) {
+    case "principal":
+      values.principal = roundDecimals(
+        bisect(
+          (principal) => getResidual({ ...values, principal }),
+          getBalloonAmount(params, 0) + minimalAmount,
+          values.paymentAmount *
+            getPaymentPeriods(values.termMonths, params.paymentFrequency) *
+            2 +
+            getBalloonAmount(params, 0)
+        ),
+        roundingDecimals
+      );
+      break;
+    case "annualInterestRatePercent":
+      values.annualInterestRatePercent = roundDecimals(
+        bisect(
+          (annualInterestRatePercent) =>
+            getResidual({ ...values, annualInterestRatePercent }),
+          0,
+          MAX_ANNUAL_INTEREST_RATE_PERCENT
+        ),
+        4
+      );
+      break;
+    case "termMonths":
+      values.termMonths = findMinimalTerm((termMonths) =>
+        getResidual({ ...values, termMonths })
+      );
+      // Whole payment periods, e.g. 15 rather than 13 months paid quarterly
+      if (Number.isInteger(monthsPerPayment)) {
+        values.termMonths =
+          Math.ceil(values.termMonths / monthsPerPayment) * monthsPerPayment;
+      }
+      break;
+    case "paymentAmount":
+      values.paymentAmount = roundDecimals(
+        bisect(
+          (paymentAmount) => -getResidual({ ...values, paymentAmount }),
+          minimalAmount,
+          values.principal * 2
+        ),
+        roundingDecimals
+      );
+      break;
+  }
+
+  const scheduleParams = getScheduleParams(values);
+  if (!isAnnuity) {
+    scheduleParams.annuityPayment = undefined;
+  }
+  const { schedule, startMonthlyPayment, totals } =
+    generateLoanSchedule(scheduleParams);
+  if (!isAnnuity) {
+    values.paymentAmount = getFirstPaymentAmount(schedule);
+  }
+
+  return {
+    ...values,
+    scheduleParams,
+    schedule,
+    startMonthlyPayment,
+    totals,
+  };
+}
+
+function getBalloonAmount(params: LoanSolverParams, principal: number): number {
+  if (!params.balloonPayment) {
+    return 0;
+  }
+  return params.balloonPayment.type === "PERCENT"
+    ? (principal * params.balloonPayment.value) / 100
+    : params.balloonPayment.value;
+}
+
+function getFirstPaymentAmount(schedule: LoanScheduleEntry[]): number {
+  const firstPayment = schedule.find(
+    (entry) =>
+      !entry.isEarlyRepayment && !entry.paymentHoliday && entry.principalAmount
+  );
+  return firstPayment?.paymentAmount ?? 0;
+}
+
+/** Root of an increasing function on the given interval. */
+function bisect(
+  residual: (value: number) => number,
+  low: number,
+  high: number
+): number {
+  if (residual(low) > 0 || residual(high) < 0) {
+    throw new LoanSolveError("NO_SOLUTION");
+  }
+  for (let iteration = 0; iteration < BISECTION_ITERATIONS; iteration++) {
+    const middle = (low + high) / 2;
+    if (residual(middle) > 0) {
+      high = middle;
+    } else {
+      low = middle;
+    }
+    if (high - low < 1e-9) {
+      break;
+    }
+  }
+  return (low + high) / 2;
+}
+
+/** Shortest term at which a decreasing residual is no longer positive. */
+function findMinimalTerm(residual: (termMonths: number) => number): number {
+  if (residual(MAX_TERM_MONTHS) > 0) {
+    throw new LoanSolveError("NO_SOLUTION");
+  }
+  let low = 1;
+  let high = MAX_TERM_MONTHS;
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    if (residual(middle) > 0) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
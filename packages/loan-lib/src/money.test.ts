@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import {
+  MinorUnits,
+  fromMinorUnits,
+  roundMoney,
+  roundToMinorUnits,
+  toMinorUnits,
+} from "./money";
+
+describe("rounding to minor units", () => {
+  it("rounds halves away from zero with HALF_UP", () => {
+    // 1.005 * 100 is 100.49999999999999 in floating point
+    expect(toMinorUnits(1.005, 2)).toBe(101);
+    expect(toMinorUnits(-1.005, 2)).toBe(-101);
+    expect(toMinorUnits(2.675, 2, "HALF_UP")).toBe(268);
+    expect(roundToMinorUnits(0.4999)).toBe(0);
+  });
+
+  it("rounds halves to the even number with HALF_EVEN", () => {
+    expect(roundToMinorUnits(2.5, "HALF_EVEN")).toBe(2);
+    expect(roundToMinorUnits(3.5, "HALF_EVEN")).toBe(4);
+    expect(roundToMinorUnits(-2.5, "HALF_EVEN")).toBe(-2);
+    expect(toMinorUnits(0.125, 2, "HALF_EVEN")).toBe(12);
+    expect(toMinorUnits(0.135, 2, "HALF_EVEN")).toBe(14);
+    expect(toMinorUnits(0.1251, 2, "HALF_EVEN")).toBe(13);
+  });
+
+  it("drops the fraction with TRUNCATE", () => {
+    expect(toMinorUnits(1.999, 2, "TRUNCATE")).toBe(199);
+    expect(toMinorUnits(-1.999, 2, "TRUNCATE")).toBe(-199);
+    // 0.29 * 100 is 28.999999999999996 in floating point
+    expect(toMinorUnits(0.29, 2, "TRUNCATE")).toBe(29);
+  });
+
+  it("converts back to major units", () => {
+    expect(fromMinorUnits(101 as MinorUnits, 2)).toBe(1.01);
+    expect(fromMinorUnits(toMinorUnits(1234.5, 0), 0)).toBe(1235);
+    expect(roundMoney(1.005, 2)).toBe(1.01);
+    expect(roundMoney(1234.5678, 1, "TRUNCATE")).toBe(1234.5);
+  });
+});
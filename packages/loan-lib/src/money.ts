@@ -0,0 +1,72 @@
+export type RoundingMode = "HALF_UP" | "HALF_EVEN" | "TRUNCATE";
+
+/**
+ * Monetary amount as a whole number of minor units, e.g. kopecks when rounding
+ * to two decimals. Sums and differences of minor units are exact while they
+ * stay within Number.MAX_SAFE_INTEGER. The brand keeps amounts in major units
+ * from being passed for minor ones and back, a value only becomes MinorUnits
+ * through `toMinorUnits` or `roundToMinorUnits`. Interest accruals are the one
+ * exception, they are kept unrounded until summed.
+ */
+export type MinorUnits = number & { readonly __brand: "MinorUnits" };
+
+/** Zero, which needs no rounding. */
+export const ZERO_MINOR_UNITS = 0 as MinorUnits;
+
+/**
+ * Rounds a value expressed in minor units to a whole number. HALF_UP rounds
+ * halves away from zero, HALF_EVEN to the nearest even number, TRUNCATE drops
+ * the fraction.
+ */
+export function roundToMinorUnits(
+  value: number,
+  roundingMode: RoundingMode = "HALF_UP"
+): MinorUnits {
+  // 1.005 * 100 gives 100.49999999999999, a double only holds about 15
+  // significant digits, so the noise beyond them is dropped first.
+  const exactValue = Number(value.toPrecision(15));
+  const absoluteValue = Math.abs(exactValue);
+  const wholePart = Math.floor(absoluteValue);
+  const fraction = absoluteValue - wholePart;
+
+  let rounded = wholePart;
+  switch (roundingMode) {
+    case "HALF_UP":
+      rounded = fraction >= 0.5 ? wholePart + 1 : wholePart;
+      break;
+    case "HALF_EVEN":
+      rounded =
+        fraction > 0.5 || (fraction === 0.5 && wholePart % 2 === 1)
+          ? wholePart + 1
+          : wholePart;
+      break;
+    case "TRUNCATE":
+      break;
+  }
+  return (exactValue < 0 && rounded !== 0 ? -rounded : rounded) as MinorUnits;
+}
+
+/** Amount in major units, e.g. roubles, rounded to minor units. */
+export function toMinorUnits(
+  amount: number,
+  decimals: number,
+  roundingMode: RoundingMode = "HALF_UP"
+): MinorUnits {
+  return roundToMinorUnits(amount * Math.pow(10, decimals), roundingMode);
+}
+
+/** Amount in major units, the reverse of `toMinorUnits`. */
+export function fromMinorUnits(
+  minorUnits: MinorUnits,
+  decimals: number
+): number {
+  return minorUnits / Math.pow(10, decimals);
+}
+
+export function roundMoney(
+  amount: number,
+  decimals: number,
+  roundingMode: RoundingMode = "HALF_UP"
+): number {
+  return fromMinorUnits(toMinorUnits(amount, decimals, roundingMode), decimals);
+}
@@ -0,0 +1,175 @@
+import { describe, expect, it } from "vitest";
+import { LoanParamsError } from "./errors";
+import { LoanScheduleParams, generateLoanSchedule } from "./loan-lib";
+import {
+  MAX_TERM_MONTHS,
+  getValidationMessage,
+  validateLoanScheduleParams,
+} from "./validation";
+
+const params: LoanScheduleParams = {
+  principal: 120000,
+  annualInterestRatePercent: 12,
+  loanType: "ANNUITY",
+  termMonths: 12,
+  issueDate: new Date(2025, 0, 10),
+};
+
+// Parameters read from JSON are not checked by the compiler
+function validate(extra: Record<string, unknown>) {
+  return validateLoanScheduleParams({
+    ...params,
+    ...extra,
+  } as LoanScheduleParams);
+}
+
+describe("enum fields", () => {
+  it("accepts the documented values", () => {
+    expect(
+      validate({
+        loanType: "AMORTIZATION",
+        paymentFrequency: "QUARTERLY",
+        businessDayConvention: "MODIFIED_FOLLOWING",
+        holidayCalendar: "WEEKENDS",
+        dayCountBasis: "THIRTY_E_360",
+        roundingMode: "HALF_EVEN",
+        earlyRepayments: [
+          {
+            earlyRepaymentDateStart: "2025-03-10",
+            earlyRepaymentAmount: 1000,
+            earlyRepaymentAmountType: "AMOUNT",
+            periodicity: "MONTHLY",
+            repaymentType: "DECREASE_PAYMENT",
+          },
+        ],
+        fees: [{ name: "Страховка", type: "PERIODIC", amount: 100 }],
+        paymentHolidays: [
+          { startDate: "2025-05-10", periods: 1, type: "CAPITALIZE" },
+        ],
+        balloonPayment: { type: "PERCENT", value: 10 },
+      })
+    ).toEqual([]);
+  });
+
+  it.each([
+    [{ loanType: "LEASING" }, ["loanType"]],
+    [{ paymentFrequency: "DAILY" }, ["paymentFrequency"]],
+    [{ businessDayConvention: "NEAREST" }, ["businessDayConvention"]],
+    [{ holidayCalendar: "US" }, ["holidayCalendar"]],
+    [{ dayCountBasis: "ACTUAL_364" }, ["dayCountBasis"]],
+    [{ roundingMode: "CEILING" }, ["roundingMode"]],
+    [
+      {
+        earlyRepayments: [
+          {
+            earlyRepaymentDateStart: "2025-03-10",
+            earlyRepaymentAmount: 1000,
+            periodicity: "WEEKLY",
+          },
+        ],
+      },
+      ["earlyRepayments", 0, "periodicity"],
+    ],
+    [
+      {
+        earlyRepayments: [
+          {
+            earlyRepaymentDateStart: "2025-03-10",
+            earlyRepaymentAmount: 1000,
+            repaymentType: "DECREASE_RATE",
+          },
+        ],
+      },
+      ["earlyRepayments", 0, "repaymentType"],
+    ],
+    [
+      { fees: [{ name: "Комиссия", type: "MONTHLY", amount: 100 }] },
+      ["fees", 0, "type"],
+    ],
+    [
+      {
+        fees: [
+          {
+            name: "Комиссия",
+            type: "PERIODIC",
+            amount: 100,
+            periodicity: "WEEKLY",
+          },
+        ],
+      },
+      ["fees", 0, "periodicity"],
+    ],
+    [
+      { paymentHolidays: [{ startDate: "2025-05-10", periods: 1, type: 1 }] },
+      ["paymentHolidays", 0, "type"],
+    ],
+    [
+      { balloonPayment: { type: "SHARE", value: 10 } },
+      ["balloonPayment", "type"],
+    ],
+  ])("rejects an unknown value of %j", (extra, path) => {
+    const issues = validate(extra);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ code: "INVALID_VALUE", path });
+  });
+
+  it("requires the fee and holiday types", () => {
+    expect(
+      validate({
+        fees: [{ name: "Комиссия", amount: 100 }],
+        paymentHolidays: [{ startDate: "2025-05-10", periods: 1 }],
+      })
+    ).toEqual([
+      { code: "REQUIRED", path: ["fees", 0, "type"] },
+      { code: "REQUIRED", path: ["paymentHolidays", 0, "type"] },
+    ]);
+  });
+
+  it("lists the accepted values in the message", () => {
+    const [issue] = validate({ roundingMode: "CEILING" });
+
+    expect(getValidationMessage(issue, "en")).toBe(
+      "must be one of HALF_UP, HALF_EVEN, TRUNCATE"
+    );
+    expect(getValidationMessage(issue)).toBe(
+      "Недопустимое значение, допустимы: HALF_UP, HALF_EVEN, TRUNCATE"
+    );
+  });
+
+  it("throws instead of returning an empty schedule", () => {
+    expect(() =>
+      generateLoanSchedule({
+        ...params,
+        paymentFrequency: "DAILY",
+      } as unknown as LoanScheduleParams)
+    ).toThrow(LoanParamsError);
+  });
+});
+
+describe("term and payment limits", () => {
+  it("caps the term", () => {
+    expect(validate({ termMonths: MAX_TERM_MONTHS })).toEqual([]);
+    expect(validate({ termMonths: MAX_TERM_MONTHS + 1 })).toEqual([
+      { code: "TOO_BIG", path: ["termMonths"], limit: MAX_TERM_MONTHS },
+    ]);
+  });
+
+  it("rejects an annuity payment that does not cover the interest", () => {
+    expect(() =>
+      generateLoanSchedule({ ...params, annuityPayment: 1 })
+    ).toThrow(
+      expect.objectContaining({
+        code: "PAYMENT_BELOW_INTEREST",
+        path: ["annuityPayment"],
+      })
+    );
+    // 1200 of interest a month
+    expect(() =>
+      generateLoanSchedule({ ...params, annuityPayment: 1200 })
+    ).toThrow(LoanParamsError);
+    expect(
+      generateLoanSchedule({ ...params, annuityPayment: 20000 }).schedule
+    ).not.toHaveLength(0);
+  });
+});
@@ -0,0 +1,554 @@
+import { startOfDay } from "date-fns";
+import type {
+  BusinessDayConvention,
+  HolidayCalendarName,
+} from "./business-day";
+import type { DayCountBasis } from "./day-count";
+import type { LoanParamsPath } from "./errors";
+import type {
+  BalloonPaymentParams,
+  EarlyRepaymentAmountType,
+  EarlyRepaymentParams,
+  LoanFeeParams,
+  LoanScheduleParams,
+  PaymentFrequency,
+  PaymentHolidayType,
+} from "./loan-lib";
+import type { LoanSolverParams } from "./loan-solver";
+import { RoundingMode, roundToMinorUnits, toMinorUnits } from "./money";
+
+export type LoanValidationCode =
+  | "REQUIRED"
+  | "NOT_POSITIVE"
+  | "NEGATIVE"
+  | "NOT_INTEGER"
+  | "TOO_SMALL"
+  | "TOO_BIG"
+  | "AMOUNT_TOO_LARGE"
+  | "PAYMENT_BELOW_INTEREST"
+  | "UNSUPPORTED_SOLVE_TARGET"
+  | "INVALID_VALUE"
+  | "INVALID_DATE"
+  | "BEFORE_ISSUE_DATE"
+  | "END_BEFORE_START"
+  | "BALLOON_NOT_LESS_THAN_PRINCIPAL"
+  | "DUPLICATE_NAME";
+
+export interface LoanValidationIssue {
+  code: LoanValidationCode;
+  path: LoanParamsPath;
+  /** Bound of TOO_SMALL and TOO_BIG. */
+  limit?: number;
+  /** Accepted values of INVALID_VALUE. */
+  values?: readonly string[];
+}
+
+export type LoanValidationLocale = "ru" | "en";
+
+const VALIDATION_MESSAGES: Record<
+  LoanValidationLocale,
+  Record<LoanValidationCode, (issue: LoanValidationIssue) => string>
+> = {
+  ru: {
+    REQUIRED: () => "Обязательное поле",
+    NOT_POSITIVE: () => "Должно быть больше 0",
+    NEGATIVE: () => "Не может быть отрицательным",
+    NOT_INTEGER: () => "Должно быть целым числом",
+    TOO_SMALL: (issue) => `Минимум ${issue.limit}`,
+    TOO_BIG: (issue) => `Максимум ${issue.limit}`,
+    AMOUNT_TOO_LARGE: () => "Слишком большая сумма для заданной точности",
+    PAYMENT_BELOW_INTEREST: () =>
+      "Платеж должен быть больше процентов за период",
+    UNSUPPORTED_SOLVE_TARGET: () =>
+      "Платеж дифференцированного кредита рассчитывается, а не подбирается",
+    INVALID_VALUE: (issue) =>
+      `Недопустимое значение, допустимы: ${issue.values?.join(", ")}`,
+    INVALID_DATE: () => "Неверная дата",
+    BEFORE_ISSUE_DATE: () => "Не может быть раньше даты выдачи",
+    END_BEFORE_START: () => "Не может быть раньше даты начала",
+    BALLOON_NOT_LESS_THAN_PRINCIPAL: () => "Должен быть меньше суммы кредита",
+    DUPLICATE_NAME: () => "Название должно быть уникальным",
+  },
+  en: {
+    REQUIRED: () => "is required",
+    NOT_POSITIVE: () => "must be > 0",
+    NEGATIVE: () => "must be >= 0",
+    NOT_INTEGER: () => "must be an integer",
+    TOO_SMALL: (issue) => `must be >= ${issue.limit}`,
+    TOO_BIG: (issue) => `must be <= ${issue.limit}`,
+    AMOUNT_TOO_LARGE: () => "is too large for the rounding decimals",
+    PAYMENT_BELOW_INTEREST: () => "must be more than the interest of a period",
+    UNSUPPORTED_SOLVE_TARGET: () =>
+      "must not be paymentAmount for an AMORTIZATION loan, its payments follow from the other parameters",
+    INVALID_VALUE: (issue) => `must be one of ${issue.values?.join(", ")}`,
+    INVALID_DATE: () => "is not a valid date",
+    BEFORE_ISSUE_DATE: () => "must not be before the issue date",
+    END_BEFORE_START: () => "must not be before the start date",
+    BALLOON_NOT_LESS_THAN_PRINCIPAL: () => "must be less than principal",
+    DUPLICATE_NAME: () => "must be unique",
+  },
+};
+
+/** Message shown for the issue, Russian by default. */
+export function getValidationMessage(
+  issue: LoanValidationIssue,
+  locale: LoanValidationLocale = "ru"
+): string {
+  return VALIDATION_MESSAGES[locale][issue.code](issue);
+}
+
+/** Same as `getValidationMessage` with the field path in front. */
+export function formatValidationIssue(
+  issue: LoanValidationIssue,
+  locale: LoanValidationLocale = "ru"
+): string {
+  return `${issue.path.join(".")} ${getValidationMessage(issue, locale)}`;
+}
+
+/** Longest supported term, 50 years. */
+export const MAX_TERM_MONTHS = 600;
+
+const LOAN_TYPES: LoanScheduleParams["loanType"][] = [
+  "ANNUITY",
+  "AMORTIZATION",
+];
+
+const PAYMENT_FREQUENCIES: PaymentFrequency[] = [
+  "WEEKLY",
+  "BIWEEKLY",
+  "MONTHLY",
+  "QUARTERLY",
+  "SEMI_ANNUAL",
+  "ANNUAL",
+];
+
+const BUSINESS_DAY_CONVENTIONS: BusinessDayConvention[] = [
+  "UNADJUSTED",
+  "FOLLOWING",
+  "MODIFIED_FOLLOWING",
+  "PRECEDING",
+];
+
+const HOLIDAY_CALENDARS: HolidayCalendarName[] = ["WEEKENDS", "RU"];
+
+const DAY_COUNT_BASES: DayCountBasis[] = [
+  "ACTUAL_365",
+  "ACTUAL_360",
+  "ACTUAL_ACTUAL",
+  "ACTUAL_365L",
+  "THIRTY_360_US",
+  "THIRTY_E_360",
+];
+
+const ROUNDING_MODES: RoundingMode[] = ["HALF_UP", "HALF_EVEN", "TRUNCATE"];
+
+const EARLY_REPAYMENT_PERIODICITIES: NonNullable<
+  EarlyRepaymentParams["periodicity"]
+>[] = ["ONCE", "MONTHLY", "QUARTERLY", "YEARLY"];
+
+const EARLY_REPAYMENT_AMOUNT_TYPES: EarlyRepaymentAmountType[] = [
+  "AMOUNT",
+  "PERCENT_OF_BALANCE",
+  "ROUND_UP_PAYMENT",
+  "PAYMENT_BUDGET",
+];
+
+const REPAYMENT_TYPES: NonNullable<EarlyRepaymentParams["repaymentType"]>[] = [
+  "DECREASE_TERM",
+  "DECREASE_PAYMENT",
+];
+
+const FEE_TYPES: LoanFeeParams["type"][] = [
+  "ONE_OFF",
+  "PERIODIC",
+  "PERCENT_OF_BALANCE",
+];
+
+const FEE_PERIODICITIES: NonNullable<LoanFeeParams["periodicity"]>[] = [
+  "MONTHLY",
+  "QUARTERLY",
+  "YEARLY",
+];
+
+const PAYMENT_HOLIDAY_TYPES: PaymentHolidayType[] = [
+  "INTEREST_ONLY",
+  "CAPITALIZE",
+  "DEFER",
+];
+
+const BALLOON_PAYMENT_TYPES: BalloonPaymentParams["type"][] = [
+  "AMOUNT",
+  "PERCENT",
+];
+
+function isMissing(value: unknown): boolean {
+  return value == null || Number.isNaN(value);
+}
+
+function toDate(value: Date | string): Date {
+  return value instanceof Date ? value : new Date(value);
+}
+
+function isValidDate(value: Date | string | undefined): boolean {
+  return value != null && !isNaN(toDate(value).getTime());
+}
+
+/**
+ * Collects issues instead of stopping at the first one, so a form can show
+ * all of them at once.
+ */
+class IssueCollector {
+  readonly issues: LoanValidationIssue[] = [];
+
+  add(code: LoanValidationCode, path: LoanParamsPath, limit?: number) {
+    this.issues.push(
+      limit === undefined ? { code, path } : { code, path, limit }
+    );
+  }
+
+  /** Checks a number, returns false if it is missing or not a number. */
+  number(
+    value: number | undefined,
+    path: LoanParamsPath,
+    rules: {
+      required?: boolean;
+      positive?: boolean;
+      nonNegative?: boolean;
+      integer?: boolean;
+      min?: number;
+      max?: number;
+    }
+  ): boolean {
+    if (isMissing(value)) {
+      if (rules.required) {
+        this.add("REQUIRED", path);
+      }
+      return false;
+    }
+    if (rules.integer && !Number.isInteger(value)) {
+      this.add("NOT_INTEGER", path);
+    } else if (rules.positive && value <= 0) {
+      this.add("NOT_POSITIVE", path);
+    } else if (rules.nonNegative && value < 0) {
+      this.add("NEGATIVE", path);
+    } else if (rules.min !== undefined && value < rules.min) {
+      this.add("TOO_SMALL", path, rules.min);
+    } else if (rules.max !== undefined && value > rules.max) {
+      this.add("TOO_BIG", path, rules.max);
+    } else {
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Checks a value of a string union, returns false if it is missing or not
+   * one of `values`. Parameters from JSON are not checked by the compiler.
+   */
+  oneOf(
+    value: unknown,
+    values: readonly string[],
+    path: LoanParamsPath,
+    required: boolean
+  ): boolean {
+    if (value == null) {
+      if (required) {
+        this.add("REQUIRED", path);
+      }
+      return false;
+    }
+    if (typeof value !== "string" || !values.includes(value)) {
+      this.issues.push({ code: "INVALID_VALUE", path, values });
+      return false;
+    }
+    return true;
+  }
+
+  /** Checks a date, returns false if it is missing or invalid. */
+  date(
+    value: Date | string | undefined,
+    path: LoanParamsPath,
+    required: boolean
+  ): boolean {
+    if (value == null || value === "") {
+      if (required) {
+        this.add("REQUIRED", path);
+      }
+      return false;
+    }
+    if (!isValidDate(value)) {
+      this.add("INVALID_DATE", path);
+      return false;
+    }
+    return true;
+  }
+}
+
+type ValidatedLoanParams = Omit<
+  LoanScheduleParams,
+  "principal" | "annualInterestRatePercent" | "termMonths"
+> & {
+  principal?: number;
+  annualInterestRatePercent?: number;
+  termMonths?: number;
+};
+
+function collectLoanParamsIssues(
+  params: ValidatedLoanParams,
+  collector: IssueCollector,
+  optionalField?: string
+) {
+  // Amounts are compared in minor units like the schedule does, see `money.ts`
+  const roundingDecimals = params.roundingDecimals ?? 2;
+  const roundingMode = params.roundingMode ?? "HALF_UP";
+  let principal: number | null = null;
+  if (
+    collector.number(params.principal, ["principal"], {
+      required: optionalField !== "principal",
+      positive: true,
+    })
+  ) {
+    principal = toMinorUnits(params.principal, roundingDecimals, roundingMode);
+    if (principal <= 0) {
+      collector.add("NOT_POSITIVE", ["principal"]);
+    } else if (!Number.isSafeInteger(principal)) {
+      collector.add("AMOUNT_TOO_LARGE", ["principal"]);
+    }
+  }
+  collector.number(params.termMonths, ["termMonths"], {
+    required: optionalField !== "termMonths",
+    integer: true,
+    positive: true,
+    max: MAX_TERM_MONTHS,
+  });
+  collector.number(
+    params.annualInterestRatePercent,
+    ["annualInterestRatePercent"],
+    {
+      required: optionalField !== "annualInterestRatePercent",
+      nonNegative: true,
+    }
+  );
+  collector.oneOf(params.loanType, LOAN_TYPES, ["loanType"], false);
+  collector.oneOf(
+    params.paymentFrequency,
+    PAYMENT_FREQUENCIES,
+    ["paymentFrequency"],
+    false
+  );
+  collector.oneOf(
+    params.businessDayConvention,
+    BUSINESS_DAY_CONVENTIONS,
+    ["businessDayConvention"],
+    false
+  );
+  // A calendar object is used as is
+  if (typeof params.holidayCalendar !== "object") {
+    collector.oneOf(
+      params.holidayCalendar,
+      HOLIDAY_CALENDARS,
+      ["holidayCalendar"],
+      false
+    );
+  }
+  collector.oneOf(
+    params.dayCountBasis,
+    DAY_COUNT_BASES,
+    ["dayCountBasis"],
+    false
+  );
+  collector.oneOf(params.roundingMode, ROUNDING_MODES, ["roundingMode"], false);
+  const hasIssueDate = collector.date(params.issueDate, ["issueDate"], true);
+  const issueDate = hasIssueDate ? startOfDay(params.issueDate) : null;
+  collector.number(params.paymentDayNumber, ["paymentDayNumber"], {
+    integer: true,
+    min: 1,
+    max: 31,
+  });
+  collector.number(params.roundingDecimals, ["roundingDecimals"], {
+    integer: true,
+    min: 0,
+    max: 10,
+  });
+  if (
+    collector.number(params.annuityPayment, ["annuityPayment"], {
+      positive: true,
+    }) &&
+    toMinorUnits(params.annuityPayment, roundingDecimals, roundingMode) <= 0
+  ) {
+    collector.add("NOT_POSITIVE", ["annuityPayment"]);
+  }
+
+  (params.earlyRepayments ?? []).forEach((earlyRepayment, index) => {
+    const path = ["earlyRepayments", index];
+    const hasStart = collector.date(
+      earlyRepayment.earlyRepaymentDateStart,
+      [...path, "earlyRepaymentDateStart"],
+      true
+    );
+    const start = hasStart
+      ? startOfDay(toDate(earlyRepayment.earlyRepaymentDateStart))
+      : null;
+    if (start && issueDate && start < issueDate) {
+      collector.add("BEFORE_ISSUE_DATE", [...path, "earlyRepaymentDateStart"]);
+    }
+    if (
+      collector.date(
+        earlyRepayment.earlyRepaymentDateEnd,
+        [...path, "earlyRepaymentDateEnd"],
+        false
+      ) &&
+      start &&
+      startOfDay(toDate(earlyRepayment.earlyRepaymentDateEnd)) < start
+    ) {
+      collector.add("END_BEFORE_START", [...path, "earlyRepaymentDateEnd"]);
+    }
+    collector.oneOf(
+      earlyRepayment.periodicity,
+      EARLY_REPAYMENT_PERIODICITIES,
+      [...path, "periodicity"],
+      false
+    );
+    collector.oneOf(
+      earlyRepayment.repaymentType,
+      REPAYMENT_TYPES,
+      [...path, "repaymentType"],
+      false
+    );
+    collector.oneOf(
+      earlyRepayment.earlyRepaymentAmountType,
+      EARLY_REPAYMENT_AMOUNT_TYPES,
+      [...path, "earlyRepaymentAmountType"],
+      false
+    );
+    // A fixed amount may be left out and then books nothing
+    const amountType = earlyRepayment.earlyRepaymentAmountType ?? "AMOUNT";
+    if (amountType === "PERCENT_OF_BALANCE") {
+      collector.number(
+        earlyRepayment.earlyRepaymentAmount,
+        [...path, "earlyRepaymentAmount"],
+        { required: true, positive: true, max: 100 }
+      );
+    } else if (
+      collector.number(
+        earlyRepayment.earlyRepaymentAmount,
+        [...path, "earlyRepaymentAmount"],
+        { required: amountType !== "AMOUNT", positive: true }
+      ) &&
+      toMinorUnits(
+        earlyRepayment.earlyRepaymentAmount,
+        roundingDecimals,
+        roundingMode
+      ) <= 0
+    ) {
+      collector.add("NOT_POSITIVE", [...path, "earlyRepaymentAmount"]);
+    }
+  });
+
+  (params.rateChanges ?? []).forEach((rateChange, index) => {
+    collector.date(
+      rateChange.effectiveDate,
+      ["rateChanges", index, "effectiveDate"],
+      true
+    );
+    collector.number(
+      rateChange.annualInterestRatePercent,
+      ["rateChanges", index, "annualInterestRatePercent"],
+      { required: true, nonNegative: true }
+    );
+  });
+
+  const feeNames = new Set<string>();
+  (params.fees ?? []).forEach((fee, index) => {
+    const name = fee.name?.trim();
+    if (!name) {
+      collector.add("REQUIRED", ["fees", index, "name"]);
+    } else if (feeNames.has(name)) {
+      collector.add("DUPLICATE_NAME", ["fees", index, "name"]);
+    }
+    feeNames.add(name);
+    collector.oneOf(fee.type, FEE_TYPES, ["fees", index, "type"], true);
+    collector.oneOf(
+      fee.periodicity,
+      FEE_PERIODICITIES,
+      ["fees", index, "periodicity"],
+      false
+    );
+    collector.number(fee.amount, ["fees", index, "amount"], {
+      required: true,
+      nonNegative: true,
+    });
+    collector.date(fee.date, ["fees", index, "date"], false);
+  });
+
+  (params.paymentHolidays ?? []).forEach((paymentHoliday, index) => {
+    collector.date(
+      paymentHoliday.startDate,
+      ["paymentHolidays", index, "startDate"],
+      true
+    );
+    collector.number(
+      paymentHoliday.periods,
+      ["paymentHolidays", index, "periods"],
+      { required: true, integer: true, min: 1 }
+    );
+    collector.oneOf(
+      paymentHoliday.type,
+      PAYMENT_HOLIDAY_TYPES,
+      ["paymentHolidays", index, "type"],
+      true
+    );
+  });
+
+  (params.customHolidays ?? []).forEach((holiday, index) => {
+    collector.date(holiday, ["customHolidays", index], true);
+  });
+
+  if (params.balloonPayment) {
+    const path = ["balloonPayment", "value"];
+    const { type, value } = params.balloonPayment;
+    collector.oneOf(
+      type,
+      BALLOON_PAYMENT_TYPES,
+      ["balloonPayment", "type"],
+      true
+    );
+    if (
+      collector.number(value, path, { required: true, nonNegative: true }) &&
+      principal !== null &&
+      (type === "PERCENT"
+        ? roundToMinorUnits((principal * value) / 100, roundingMode)
+        : toMinorUnits(value, roundingDecimals, roundingMode)) >= principal
+    ) {
+      collector.add("BALLOON_NOT_LESS_THAN_PRINCIPAL", path);
+    }
+  }
+}
+
+/** Checks the schedule parameters, an empty list means they are valid. */
+export function validateLoanScheduleParams(
+  params: LoanScheduleParams
+): LoanValidationIssue[] {
+  const collector = new IssueCollector();
+  collectLoanParamsIssues(params, collector);
+  return collector.issues;
+}
+
+/** Checks the solver parameters, the unknown may be left out. */
+export function validateLoanSolverParams(
+  params: LoanSolverParams
+): LoanValidationIssue[] {
+  const collector = new IssueCollector();
+  collectLoanParamsIssues(params, collector, params.solveFor);
+  collector.number(params.paymentAmount, ["paymentAmount"], {
+    required: params.solveFor !== "paymentAmount",
+    positive: true,
+  });
+  if (
+    params.solveFor === "paymentAmount" &&
+    params.loanType === "AMORTIZATION"
+  ) {
+    collector.add("UNSUPPORTED_SOLVE_TARGET", ["solveFor"]);
+  }
+  return collector.issues;
+}
@@ -1,11 +1,19 @@
 const express = require('express');
 const promBundle = require('express-prom-bundle');
 const path = require('path');
+const readline = require('readline');
+// Движок расчета, собирается командой npm run build:api
+const {
+  getApiErrorResponse,
+  getOpenApiDocument,
+  handleScheduleRequest,
+} = require('./dist/loan-api.cjs');
+const { runBatch } = require('./dist/loan-batch.cjs');
 
-# Создание экземпляра
+// Создание экземпляра
 const app = express();
 
-# Middleware для сбора метрик
+// Middleware для сбора метрик
 const metricsMiddleware = promBundle({
   includeMethod: true,
   includePath: true,
@@ -14,22 +22,92 @@ const metricsMiddleware = promBundle({
   },
 });
 
-# Добавление в цепочку запросов
+// Добавление в цепочку запросов
 app.use(metricsMiddleware);
 
-# Раздача статических файлов из out через модуль
+// Описание API в формате OpenAPI
+app.get('/api/openapi.json', (req, res) => {
+  res.json(getOpenApiDocument());
+});
+
+// Расчет графика платежей
+app.post('/api/schedule', express.json({ limit: '1mb' }), (req, res) => {
+  const { status, body } = handleScheduleRequest(req.body);
+  res.status(status).json(body);
+});
+
+// Ждет, пока клиент заберет записанное, или закрытия соединения
+function waitForDrain(res) {
+  return new Promise((resolve) => {
+    const done = () => {
+      res.off('drain', done);
+      res.off('close', done);
+      resolve();
+    };
+    res.on('drain', done);
+    res.on('close', done);
+  });
+}
+
+// Пакетный расчет портфеля: NDJSON или CSV построчно, ответ потоком NDJSON
+app.post('/api/batch', async (req, res, next) => {
+  const format = req.is('text/csv') ? 'csv' : 'ndjson';
+  const lines = readline.createInterface({ input: req, crlfDelay: Infinity });
+  res.status(200).type('application/x-ndjson');
+  try {
+    for await (const line of runBatch(lines, {
+      format,
+      includeSchedule: req.query.schedule === '1',
+    })) {
+      // Медленный клиент: следующая строка считается, когда буфер освободится
+      if (!res.write(JSON.stringify(line) + '\n')) {
+        await waitForDrain(res);
+      }
+      if (res.destroyed) {
+        return;
+      }
+    }
+    res.end();
+  } catch (err) {
+    if (!res.headersSent) {
+      return next(err);
+    }
+    // Часть ответа уже отправлена, ошибка уходит последней строкой
+    res.end(
+      JSON.stringify({
+        type: 'error',
+        error: { code: 'CALCULATION_ERROR', message: err.message },
+      }) + '\n'
+    );
+  }
+});
+
+// Некорректный JSON в теле запроса
+app.use('/api', (err, req, res, next) => {
+  if (err.type !== 'entity.parse.failed') {
+    return next(err);
+  }
+  const { status, body } = getApiErrorResponse({
+    code: 'INVALID_JSON',
+    message: err.message,
+  });
+  res.status(status).json(body);
+});
+
+// Раздача статических файлов из out через модуль
 app.use(express.static(path.join(__dirname, 'out')));
 
-# Перехват get, возврат index, отправка клиенту
+// Перехват get, возврат index, отправка клиенту
 app.get('*', (req, res) => {
   res.sendFile(path.join(__dirname, 'out', 'index.html'));
 });
 
-# Определяет порт прослушки
+// Определяет порт прослушки
 const PORT = process.env.PORT || 3000;
 
-# Запуск express на порту и вывод сообщений
+// Запуск express на порту и вывод сообщений
 app.listen(PORT, () => {
   console.log(`Сервер запущен на порту ${PORT}`);
   console.log(`Метрики доступны по: http://localhost:${PORT}/metrics`);
+  console.log(`API расчета: http://localhost:${PORT}/api/openapi.json`);
 });
@@ -0,0 +1,124 @@
+"use client";
+
+import { DayCountBasis, LoanEntryTrace, RoundingMode } from "@loan-calc/loan-lib";
+import { format } from "date-fns";
+
+const DAY_COUNT_LABELS: Record<DayCountBasis, string> = {
+  ACTUAL_365: "365 дней в году",
+  ACTUAL_360: "360 дней в году",
+  ACTUAL_ACTUAL: "Фактические дни",
+  ACTUAL_365L: "ACT/365L",
+  THIRTY_360_US: "30/360 US",
+  THIRTY_E_360: "30E/360",
+};
+
+const ROUNDING_MODE_LABELS: Record<RoundingMode, string> = {
+  HALF_UP: "математическое",
+  HALF_EVEN: "банковское",
+  TRUNCATE: "отбрасывание",
+};
+
+function formatAmount(value: number, decimals: number) {
+  return value.toLocaleString("ru-RU", {
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals,
+  });
+}
+
+function formatDate(date: Date) {
+  return format(date, "dd.MM.yyyy");
+}
+
+// Расчет процентов строки графика: период, начисления по ставкам и округление
+export default function EntryTrace({
+  trace,
+  roundingDecimals,
+}: {
+  trace?: LoanEntryTrace;
+  roundingDecimals: number;
+}) {
+  if (!trace) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Проценты в этой строке не начисляются
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div>
+        <div className="font-medium">
+          Период {formatDate(trace.periodStart)} – {formatDate(trace.periodEnd)}
+        </div>
+        <div className="text-muted-foreground">
+          {trace.days} дн., база: {DAY_COUNT_LABELS[trace.dayCountBasis]}
+        </div>
+      </div>
+
+      {trace.accruals.map((accrual, index) => (
+        <div key={index} className="rounded-md bg-muted p-2">
+          {trace.accruals.length > 1 && (
+            <div className="text-muted-foreground">
+              {formatDate(accrual.periodStart)} – {formatDate(accrual.periodEnd)}, {accrual.days} дн.
+            </div>
+          )}
+          <div className="font-mono text-xs">
+            {formatAmount(accrual.principal, roundingDecimals)} ×{" "}
+            {accrual.annualInterestRatePercent.toLocaleString("ru-RU")}% ×{" "}
+            {accrual.yearFraction.toLocaleString("ru-RU", { maximumFractionDigits: 6 })}
+          </div>
+          <div className="font-mono text-xs">
+            = {formatAmount(accrual.interestAmount, roundingDecimals + 4)}
+          </div>
+        </div>
+      ))}
+
+      {trace.carriedOverInterestAmount !== undefined && (
+        <div>
+          Проценты, не погашенные досрочным платежом:{" "}
+          {formatAmount(trace.carriedOverInterestAmount, roundingDecimals)}
+        </div>
+      )}
+
+      <div className="space-y-1">
+        {trace.accruals.length > 0 && (
+          <div className="flex justify-between gap-4">
+            <span className="text-muted-foreground">Начислено без округления</span>
+            <span>{formatAmount(trace.accruedInterestAmount, roundingDecimals + 4)}</span>
+          </div>
+        )}
+        <div className="flex justify-between gap-4">
+          <span className="text-muted-foreground">
+            Округление до {trace.roundingDecimals} зн., {ROUNDING_MODE_LABELS[trace.roundingMode]}
+          </span>
+          <span>{formatAmount(trace.interestAmount, roundingDecimals)}</span>
+        </div>
+        {trace.bookedInterestAmount !== undefined && (
+          <>
+            <div className="flex justify-between gap-4">
+              <span className="text-muted-foreground">Погашено досрочным платежом</span>
+              <span>{formatAmount(trace.bookedInterestAmount, roundingDecimals)}</span>
+            </div>
+            <div className="flex justify-between gap-4">
+              <span className="text-muted-foreground">Перенесено в следующий платеж</span>
+              <span>{formatAmount(trace.carriedForwardInterestAmount, roundingDecimals)}</span>
+            </div>
+          </>
+        )}
+        {trace.deferredInterestAmount !== undefined && (
+          <div className="flex justify-between gap-4">
+            <span className="text-muted-foreground">Отложенные проценты</span>
+            <span>{formatAmount(trace.deferredInterestAmount, roundingDecimals)}</span>
+          </div>
+        )}
+        {trace.annuityPayment !== undefined && (
+          <div className="flex justify-between gap-4">
+            <span className="text-muted-foreground">Аннуитетный платеж</span>
+            <span>{formatAmount(trace.annuityPayment, roundingDecimals)}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
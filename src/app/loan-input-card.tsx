@@ -25,134 +25,91 @@ import {
   CollapsibleContent,
   CollapsibleTrigger,
 } from "@/components/ui/collapsible";
-import { ChevronsUpDown, Plus, Trash2 } from "lucide-react";
+import { ChevronsUpDown, Link2, Plus, Trash2 } from "lucide-react";
 import { useEffect, useState } from "react";
 import { FormMessage } from "@/components/ui/form";
-import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
-import type { Resolver } from "react-hook-form";
+import type { FieldPath, Resolver } from "react-hook-form";
+import type { LoanValidationIssue } from "@loan-calc/loan-lib";
 import { format } from "date-fns";
-
-const earlyRepaymentSchema = z.object({
-  id: z.string(),
-  earlyRepaymentDateStart: z.coerce.date(),
-  earlyRepaymentDateEnd: z.coerce.date().optional(),
-  periodicity: z.enum(["ONCE", "MONTHLY", "QUARTERLY", "YEARLY"]),
-  earlyRepaymentAmount: z.coerce
-    .number()
-    .positive("Сумма должна быть больше 0"),
-  repaymentType: z.enum(["DECREASE_TERM", "DECREASE_PAYMENT"]),
-});
+import {
+  loanInputFormSchema,
+  toFormIssues,
+} from "@/lib/loan-input-form-schema";
+import ScenarioLibrary from "./scenario-library";
+import {
+  SHARE_URL_PARAM,
+  STORED_FORM_VERSION,
+  decodeLoanInputForm,
+  encodeLoanInputForm,
+  fromStoredLoanInputForm,
+  getSharedFormParam,
+  migrateStoredLoanInputForm,
+  toStoredLoanInputForm,
+  withoutSharedFormParam,
+} from "@/lib/loan-input-form-codec";
 
 export default function LoanInputCard({
   onFormSubmit,
 }: {
-  onFormSubmit?: (data: LoanInputForm) => void;
+  /**
+   * Called with the validated form. Issues the engine finds while calculating
+   * are passed to `showIssues` and shown next to the fields.
+   */
+  onFormSubmit?: (
+    data: LoanInputForm,
+    showIssues: (issues: LoanValidationIssue[]) => void
+  ) => void;
 }) {
   const LOCAL_STORAGE_KEY = "loan-input-form-settings";
 
-  const schema = z
-    .object({
-      loanAmount: z.coerce.number().gt(0, "Сумма должна быть больше 0"),
-      loanTerm: z.coerce
-        .number()
-        .int("Срок должен быть целым числом")
-        .gt(0, "Срок должен быть больше 0"),
-      loanTermType: z.enum(["y", "m"]),
-      interestRate: z.coerce
-        .number()
-        .min(0, "Ставка не может быть отрицательной"),
-      loanType: z.enum(["ANNUITY", "AMORTIZATION"]),
-      interestOnlyFirstPeriod: z.boolean().optional(),
-      moveHolidayToNextDay: z.boolean().optional(),
-      dayCountBasis: z
-        .enum(["ACTUAL_365", "ACTUAL_360", "ACTUAL_ACTUAL"])
-        .optional(),
-      roundingDecimals: z.union([
-        z.coerce
-          .number()
-          .int("Должно быть целым числом")
-          .min(0, "Минимум 0")
-          .max(10, "Максимум 10"),
-        z.undefined(),
-      ]),
-      issueDate: z.coerce.date(),
-      paymentDayNumber: z.coerce
-        .number()
-        .int("Должно быть целым числом")
-        .min(1, "Минимум 1")
-        .max(31, "Максимум 31"),
-      earlyRepayments: z.array(earlyRepaymentSchema),
-    })
-    .superRefine((val, ctx) => {
-      if (!(val.issueDate instanceof Date) || isNaN(val.issueDate.getTime())) {
-        ctx.addIssue({
-          code: "custom",
-          path: ["issueDate"],
-          message: "Неверная дата",
-        });
-      }
-    });
-
   const defaultValues: LoanInputForm = {
     loanAmount: 100000,
     loanTerm: 12,
     loanTermType: "m",
     loanType: "ANNUITY",
+    paymentFrequency: "MONTHLY",
     interestRate: 10,
+    solveFor: "NONE",
+    paymentAmount: undefined,
     interestOnlyFirstPeriod: false,
     dayCountBasis: "ACTUAL_365",
     roundingDecimals: 2,
+    roundingMode: "HALF_UP",
     issueDate: new Date(),
     paymentDayNumber: 20,
-    moveHolidayToNextDay: false,
+    businessDayConvention: "UNADJUSTED",
+    holidayCalendar: "RU",
+    customHolidays: "",
+    balloonPaymentType: "PERCENT",
+    balloonPaymentValue: undefined,
     earlyRepayments: [],
+    rateChanges: [],
+    fees: [],
+    paymentHolidays: [],
   };
 
-  // Get initial values from localStorage or use defaults
+  // Get initial values from a shared link, localStorage or use defaults
   const getInitialValues = (): LoanInputForm => {
+    const shared = getSharedFormParam(window.location);
+    if (shared) {
+      try {
+        return decodeLoanInputForm(shared);
+      } catch (error) {
+        console.warn("Failed to load shared loan settings", error);
+      }
+    }
     try {
       const raw = localStorage.getItem(LOCAL_STORAGE_KEY);
       if (!raw) {
         return defaultValues;
       }
 
+      // Settings saved before versioning are version 1
       const parsed = JSON.parse(raw);
-      return {
-        loanAmount: Number(parsed.loanAmount) || 100000,
-        loanTerm: Number(parsed.loanTerm) || 12,
-        loanTermType: parsed.loanTermType === "y" ? "y" : "m",
-        loanType:
-          parsed.loanType === "AMORTIZATION" ? "AMORTIZATION" : "ANNUITY",
-        interestRate: Number(parsed.interestRate) || 10,
-        dayCountBasis: ["ACTUAL_365", "ACTUAL_360", "ACTUAL_ACTUAL"].includes(
-          parsed.dayCountBasis
-        )
-          ? parsed.dayCountBasis
-          : "ACTUAL_365",
-        roundingDecimals:
-          parsed.roundingDecimals === "" || parsed.roundingDecimals == null
-            ? 2
-            : Number(parsed.roundingDecimals),
-        issueDate: parsed.issueDate ? new Date(parsed.issueDate) : new Date(),
-        paymentDayNumber: parsed.paymentDayNumber
-          ? Number(parsed.paymentDayNumber)
-          : 20,
-        interestOnlyFirstPeriod: Boolean(parsed.interestOnlyFirstPeriod),
-        moveHolidayToNextDay: Boolean(parsed.moveHolidayToNextDay),
-        earlyRepayments: (parsed.earlyRepayments || []).map((er: any) => ({
-          id: er.id || `er-${Date.now()}-${Math.random()}`,
-          earlyRepaymentDateStart: er.earlyRepaymentDateStart
-            ? new Date(er.earlyRepaymentDateStart)
-            : new Date(),
-          earlyRepaymentDateEnd: er.earlyRepaymentDateEnd
-            ? new Date(er.earlyRepaymentDateEnd)
-            : undefined,
-          periodicity: er.periodicity || "MONTHLY",
-          earlyRepaymentAmount: er.earlyRepaymentAmount || 0,
-          repaymentType: er.repaymentType || "DECREASE_PAYMENT",
-        })),
-      };
+      return fromStoredLoanInputForm(
+        migrateStoredLoanInputForm(parsed, parsed.version ?? 1)
+      );
     } catch (error) {
       console.warn("Failed to load saved loan settings, using defaults", error);
       return defaultValues;
@@ -160,9 +117,16 @@ export default function LoanInputCard({
   };
 
   const form = useForm<LoanInputForm>({
-    resolver: zodResolver(schema) as unknown as Resolver<LoanInputForm>,
+    resolver: zodResolver(
+      loanInputFormSchema
+    ) as unknown as Resolver<LoanInputForm>,
     defaultValues: getInitialValues(),
   });
+  const solveFor = form.watch("solveFor") ?? "NONE";
+  const paymentLabel =
+    (form.watch("paymentFrequency") ?? "MONTHLY") === "MONTHLY"
+      ? "Ежемесячный платеж"
+      : "Регулярный платеж";
 
   // Persist settings to localStorage on any change
   useEffect(() => {
@@ -171,20 +135,8 @@ export default function LoanInputCard({
         localStorage.setItem(
           LOCAL_STORAGE_KEY,
           JSON.stringify({
-            ...value,
-            issueDate: format(value.issueDate, "yyyy-MM-dd"),
-            earlyRepayments: (value.earlyRepayments || []).map((er) => ({
-              id: er.id,
-              earlyRepaymentDateStart: er.earlyRepaymentDateStart
-                ? format(er.earlyRepaymentDateStart, "yyyy-MM-dd")
-                : undefined,
-              earlyRepaymentDateEnd: er.earlyRepaymentDateEnd
-                ? format(er.earlyRepaymentDateEnd, "yyyy-MM-dd")
-                : undefined,
-              periodicity: er.periodicity,
-              earlyRepaymentAmount: er.earlyRepaymentAmount,
-              repaymentType: er.repaymentType,
-            })),
+            ...toStoredLoanInputForm(value as LoanInputForm),
+            version: STORED_FORM_VERSION,
           })
         );
       } catch (error) {
@@ -194,6 +146,38 @@ export default function LoanInputCard({
     return () => subscription.unsubscribe();
   }, [form]);
 
+  // A shared link is applied once, then the settings live in localStorage
+  useEffect(() => {
+    if (getSharedFormParam(window.location)) {
+      localStorage.setItem(
+        LOCAL_STORAGE_KEY,
+        JSON.stringify({
+          ...toStoredLoanInputForm(form.getValues()),
+          version: STORED_FORM_VERSION,
+        })
+      );
+      window.history.replaceState(
+        null,
+        "",
+        withoutSharedFormParam(window.location)
+      );
+    }
+  }, [form]);
+
+  const [isLinkCopied, setIsLinkCopied] = useState(false);
+
+  async function onShare() {
+    const url = `${window.location.origin}${window.location.pathname}#${SHARE_URL_PARAM}=${encodeLoanInputForm(form.getValues())}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      setIsLinkCopied(true);
+      setTimeout(() => setIsLinkCopied(false), 2000);
+    } catch (error) {
+      console.warn("Failed to copy share link", error);
+      window.prompt("Скопируйте ссылку", url);
+    }
+  }
+
   const addEarlyRepayment = () => {
     const newId = `er-${Date.now()}`;
     const currentEarlyRepayments = form.getValues("earlyRepayments") || [];
@@ -205,6 +189,8 @@ export default function LoanInputCard({
         periodicity: "MONTHLY" as const,
         repaymentType: "DECREASE_PAYMENT" as const,
         earlyRepaymentAmount: 0,
+        earlyRepaymentAmountType: "AMOUNT" as const,
+        withRegularPayment: false,
       },
     ]);
   };
@@ -217,8 +203,84 @@ export default function LoanInputCard({
     );
   };
 
+  const addRateChange = () => {
+    const newId = `rc-${Date.now()}`;
+    const currentRateChanges = form.getValues("rateChanges") || [];
+    form.setValue("rateChanges", [
+      ...currentRateChanges,
+      {
+        id: newId,
+        effectiveDate: new Date(),
+        annualInterestRatePercent: form.getValues("interestRate"),
+      },
+    ]);
+  };
+
+  const removeRateChange = (id: string) => {
+    const currentRateChanges = form.getValues("rateChanges") || [];
+    form.setValue(
+      "rateChanges",
+      currentRateChanges.filter((rc) => rc.id !== id)
+    );
+  };
+
+  const addFee = () => {
+    const newId = `fee-${Date.now()}`;
+    const currentFees = form.getValues("fees") || [];
+    form.setValue("fees", [
+      ...currentFees,
+      {
+        id: newId,
+        name: "",
+        type: "ONE_OFF" as const,
+        amount: 0,
+        date: form.getValues("issueDate"),
+        periodicity: "MONTHLY" as const,
+      },
+    ]);
+  };
+
+  const removeFee = (id: string) => {
+    const currentFees = form.getValues("fees") || [];
+    form.setValue(
+      "fees",
+      currentFees.filter((fee) => fee.id !== id)
+    );
+  };
+
+  const addPaymentHoliday = () => {
+    const newId = `ph-${Date.now()}`;
+    const currentPaymentHolidays = form.getValues("paymentHolidays") || [];
+    form.setValue("paymentHolidays", [
+      ...currentPaymentHolidays,
+      {
+        id: newId,
+        startDate: new Date(),
+        periods: 1,
+        type: "INTEREST_ONLY" as const,
+      },
+    ]);
+  };
+
+  const removePaymentHoliday = (id: string) => {
+    const currentPaymentHolidays = form.getValues("paymentHolidays") || [];
+    form.setValue(
+      "paymentHolidays",
+      currentPaymentHolidays.filter((ph) => ph.id !== id)
+    );
+  };
+
+  const showIssues = (issues: LoanValidationIssue[]) => {
+    toFormIssues(issues).forEach(({ path, message }) =>
+      form.setError(path.join(".") as FieldPath<LoanInputForm>, {
+        type: "validate",
+        message,
+      })
+    );
+  };
+
   function onSubmit(data: LoanInputForm) {
-    onFormSubmit?.(data);
+    onFormSubmit?.(data, showIssues);
   }
 
   return (
@@ -238,7 +300,17 @@ export default function LoanInputCard({
                   <FormItem>
                     <FormLabel>Размер кредита</FormLabel>
                     <FormControl>
-                      <Input type="number" placeholder="100000" {...field} />
+                      <Input
+                        type="number"
+                        placeholder={
+                          solveFor === "loanAmount" ? "Подбирается" : "100000"
+                        }
+                        {...field}
+                        value={
+                          solveFor === "loanAmount" ? "" : (field.value ?? "")
+                        }
+                        disabled={solveFor === "loanAmount"}
+                      />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -256,7 +328,17 @@ export default function LoanInputCard({
                           Срок кредита
                         </FormLabel>
                         <FormControl>
-                          <Input type="number" placeholder="12" {...field} />
+                          <Input
+                            type="number"
+                            placeholder={
+                              solveFor === "loanTerm" ? "Подбирается" : "12"
+                            }
+                            {...field}
+                            value={
+                              solveFor === "loanTerm" ? "" : (field.value ?? "")
+                            }
+                            disabled={solveFor === "loanTerm"}
+                          />
                         </FormControl>
                         <FormMessage />
                       </FormItem>
@@ -300,7 +382,17 @@ export default function LoanInputCard({
                   <FormItem>
                     <FormLabel>Процентная ставка (%)</FormLabel>
                     <FormControl>
-                      <Input type="number" placeholder="10" {...field} />
+                      <Input
+                        type="number"
+                        placeholder={
+                          solveFor === "interestRate" ? "Подбирается" : "10"
+                        }
+                        {...field}
+                        value={
+                          solveFor === "interestRate" ? "" : (field.value ?? "")
+                        }
+                        disabled={solveFor === "interestRate"}
+                      />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -334,6 +426,39 @@ export default function LoanInputCard({
                 )}
               />
 
+              <FormField
+                control={form.control}
+                name="paymentFrequency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Периодичность платежей</FormLabel>
+                    <Select
+                      onValueChange={field.onChange}
+                      defaultValue={field.value}
+                    >
+                      <SelectTrigger>
+                        <FormControl>
+                          <SelectValue />
+                        </FormControl>
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="WEEKLY">Еженедельно</SelectItem>
+                        <SelectItem value="BIWEEKLY">
+                          Раз в две недели
+                        </SelectItem>
+                        <SelectItem value="MONTHLY">Ежемесячно</SelectItem>
+                        <SelectItem value="QUARTERLY">Ежеквартально</SelectItem>
+                        <SelectItem value="SEMI_ANNUAL">
+                          Раз в полгода
+                        </SelectItem>
+                        <SelectItem value="ANNUAL">Ежегодно</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <FormField
                 control={form.control}
                 name="issueDate"
@@ -367,6 +492,73 @@ export default function LoanInputCard({
                   </FormItem>
                 )}
               />
+
+              <FormField
+                control={form.control}
+                name="solveFor"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Подобрать</FormLabel>
+                    <Select
+                      onValueChange={field.onChange}
+                      defaultValue={field.value}
+                    >
+                      <SelectTrigger>
+                        <FormControl>
+                          <SelectValue />
+                        </FormControl>
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="NONE">Ничего</SelectItem>
+                        <SelectItem value="loanAmount">
+                          Размер кредита
+                        </SelectItem>
+                        <SelectItem value="interestRate">
+                          Процентную ставку
+                        </SelectItem>
+                        <SelectItem value="loanTerm">Срок кредита</SelectItem>
+                        <SelectItem
+                          value="paymentAmount"
+                          disabled={form.watch("loanType") === "AMORTIZATION"}
+                        >
+                          {paymentLabel}
+                        </SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {solveFor !== "NONE" && (
+                <FormField
+                  control={form.control}
+                  name="paymentAmount"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{paymentLabel}</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          placeholder={
+                            solveFor === "paymentAmount"
+                              ? "Подбирается"
+                              : "50000"
+                          }
+                          {...field}
+                          value={
+                            solveFor === "paymentAmount"
+                              ? ""
+                              : (field.value ?? "")
+                          }
+                          disabled={solveFor === "paymentAmount"}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
             </div>
 
             {/* Досрочные погашения */}
@@ -540,6 +732,59 @@ export default function LoanInputCard({
                             </FormItem>
                           )}
                         />
+                        <FormField
+                          control={form.control}
+                          name={`earlyRepayments.${index}.earlyRepaymentAmountType`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel className="text-xs text-muted-foreground">
+                                Как считать сумму
+                              </FormLabel>
+                              <Select
+                                onValueChange={field.onChange}
+                                defaultValue={field.value}
+                              >
+                                <FormControl>
+                                  <SelectTrigger className="h-9">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  <SelectItem value="AMOUNT">
+                                    Фиксированная сумма
+                                  </SelectItem>
+                                  <SelectItem value="PERCENT_OF_BALANCE">
+                                    % от остатка долга
+                                  </SelectItem>
+                                  <SelectItem value="ROUND_UP_PAYMENT">
+                                    Округлить платеж вверх до кратного
+                                  </SelectItem>
+                                  <SelectItem value="PAYMENT_BUDGET">
+                                    Бюджет на платеж
+                                  </SelectItem>
+                                </SelectContent>
+                              </Select>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name={`earlyRepayments.${index}.withRegularPayment`}
+                          render={({ field }) => (
+                            <FormItem className="flex items-center gap-2">
+                              <FormControl>
+                                <Checkbox
+                                  checked={field.value}
+                                  onCheckedChange={field.onChange}
+                                />
+                              </FormControl>
+                              <FormLabel className="text-xs text-muted-foreground">
+                                Вместе с очередным платежом
+                              </FormLabel>
+                            </FormItem>
+                          )}
+                        />
                       </div>
                     </div>
                   ))}
@@ -558,12 +803,10 @@ export default function LoanInputCard({
               </CollapsibleContent>
             </Collapsible>
 
-            {/* Дополнительные параметры */}
+            {/* Изменения ставки */}
             <Collapsible className="mb-6" defaultOpen>
               <div className="flex justify-between items-center gap-2 mb-3">
-                <h4 className="text-sm font-semibold">
-                  Дополнительные параметры
-                </h4>
+                <h4 className="text-sm font-semibold">Изменения ставки</h4>
                 <CollapsibleTrigger asChild>
                   <Button variant="ghost" size="icon" className="size-8">
                     <ChevronsUpDown />
@@ -572,105 +815,684 @@ export default function LoanInputCard({
                 </CollapsibleTrigger>
               </div>
               <CollapsibleContent>
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <FormField
-                    control={form.control}
-                    name="roundingDecimals"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Знаки после запятой</FormLabel>
-                        <FormControl>
-                          <Input
-                            type="number"
-                            placeholder="2"
-                            value={field.value ?? ""}
-                            onChange={(e) => {
-                              const value = e.target.value;
-                              field.onChange(
-                                value === "" ? undefined : Number(value)
-                              );
-                            }}
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <FormField
-                    control={form.control}
-                    name="dayCountBasis"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>База расчета дней</FormLabel>
-                        <Select
-                          onValueChange={field.onChange}
-                          defaultValue={field.value}
-                        >
-                          <SelectTrigger>
-                            <FormControl>
-                              <SelectValue />
-                            </FormControl>
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="ACTUAL_365">
-                              365 дней в году
-                            </SelectItem>
-                            <SelectItem value="ACTUAL_360">
-                              360 дней в году
-                            </SelectItem>
-                            <SelectItem value="ACTUAL_ACTUAL">
-                              Фактические дни
-                            </SelectItem>
-                          </SelectContent>
-                        </Select>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                </div>
-                <div className="space-y-3 mt-4">
-                  <FormField
-                    control={form.control}
-                    name="interestOnlyFirstPeriod"
-                    render={({ field }) => (
-                      <FormItem className="flex items-center gap-2">
-                        <FormControl>
-                          <Checkbox
-                            checked={field.value}
-                            onCheckedChange={field.onChange}
-                          />
-                        </FormControl>
-                        <FormLabel className="text-sm">
-                          Первый месяц проценты
-                        </FormLabel>
-                      </FormItem>
-                    )}
-                  />
-                  <FormField
-                    control={form.control}
-                    name="moveHolidayToNextDay"
-                    render={({ field }) => (
-                      <FormItem className="flex items-center gap-2">
-                        <FormControl>
-                          <Checkbox
-                            checked={field.value}
-                            onCheckedChange={field.onChange}
-                          />
-                        </FormControl>
-                        <FormLabel className="text-sm">
-                          Перенос выходных
-                        </FormLabel>
-                      </FormItem>
-                    )}
-                  />
-                </div>
-              </CollapsibleContent>
-            </Collapsible>
-
-            {/* Кнопка расчета */}
-            <div className="text-center">
-              <Button type="submit" size="lg" className="px-8">
-                Рассчитать кредит
+                <div className="space-y-4">
+                  {form.watch("rateChanges")?.map((rc, index) => (
+                    <div
+                      key={rc.id}
+                      className="p-4 border rounded-lg flex items-start gap-4"
+                    >
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 flex-1">
+                        <FormField
+                          control={form.control}
+                          name={`rateChanges.${index}.effectiveDate`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel className="text-xs text-muted-foreground">
+                                Дата изменения
+                              </FormLabel>
+                              <FormControl>
+                                <Input
+                                  type="date"
+                                  value={
+                                    field.value
+                                      ? format(field.value, "yyyy-MM-dd")
+                                      : ""
+                                  }
+                                  onChange={(e) =>
+                                    field.onChange(e.target.valueAsDate)
+                                  }
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name={`rateChanges.${index}.annualInterestRatePercent`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel className="text-xs text-muted-foreground">
+                                Новая ставка (%)
+                              </FormLabel>
+                              <FormControl>
+                                <Input
+                                  type="number"
+                                  placeholder="10"
+                                  {...field}
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </div>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="size-6"
+                        onClick={() => removeRateChange(rc.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={addRateChange}
+                    className="w-full"
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    Добавить изменение ставки
+                  </Button>
+                </div>
+              </CollapsibleContent>
+            </Collapsible>
+
+            {/* Кредитные каникулы и льготные периоды */}
+            <Collapsible className="mb-6" defaultOpen>
+              <div className="flex justify-between items-center gap-2 mb-3">
+                <h4 className="text-sm font-semibold">Кредитные каникулы</h4>
+                <CollapsibleTrigger asChild>
+                  <Button variant="ghost" size="icon" className="size-8">
+                    <ChevronsUpDown />
+                    <span className="sr-only">Toggle</span>
+                  </Button>
+                </CollapsibleTrigger>
+              </div>
+              <CollapsibleContent>
+                <div className="space-y-4">
+                  {form.watch("paymentHolidays")?.map((ph, index) => (
+                    <div
+                      key={ph.id}
+                      className="p-4 border rounded-lg flex items-start gap-4"
+                    >
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 flex-1">
+                        <FormField
+                          control={form.control}
+                          name={`paymentHolidays.${index}.startDate`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel className="text-xs text-muted-foreground">
+                                Дата начала
+                              </FormLabel>
+                              <FormControl>
+                                <Input
+                                  type="date"
+                                  value={
+                                    field.value
+                                      ? format(field.value, "yyyy-MM-dd")
+                                      : ""
+                                  }
+                                  onChange={(e) =>
+                                    field.onChange(e.target.valueAsDate)
+                                  }
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name={`paymentHolidays.${index}.periods`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel className="text-xs text-muted-foreground">
+                                Количество платежей
+                              </FormLabel>
+                              <FormControl>
+                                <Input
+                                  type="number"
+                                  placeholder="1"
+                                  {...field}
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name={`paymentHolidays.${index}.type`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel className="text-xs text-muted-foreground">
+                                Тип
+                              </FormLabel>
+                              <Select
+                                onValueChange={field.onChange}
+                                defaultValue={field.value}
+                              >
+                                <FormControl>
+                                  <SelectTrigger>
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  <SelectItem value="INTEREST_ONLY">
+                                    Только проценты
+                                  </SelectItem>
+                                  <SelectItem value="CAPITALIZE">
+                                    Без платежа, проценты в долг
+                                  </SelectItem>
+                                  <SelectItem value="DEFER">
+                                    Без платежа, проценты отложены
+                                  </SelectItem>
+                                </SelectContent>
+                              </Select>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </div>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="size-6"
+                        onClick={() => removePaymentHoliday(ph.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={addPaymentHoliday}
+                    className="w-full"
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    Добавить каникулы
+                  </Button>
+                </div>
+              </CollapsibleContent>
+            </Collapsible>
+
+            {/* Комиссии и страховки */}
+            <Collapsible className="mb-6" defaultOpen>
+              <div className="flex justify-between items-center gap-2 mb-3">
+                <h4 className="text-sm font-semibold">Комиссии и страховки</h4>
+                <CollapsibleTrigger asChild>
+                  <Button variant="ghost" size="icon" className="size-8">
+                    <ChevronsUpDown />
+                    <span className="sr-only">Toggle</span>
+                  </Button>
+                </CollapsibleTrigger>
+              </div>
+              <CollapsibleContent>
+                <div className="space-y-4">
+                  {form.watch("fees")?.map((fee, index) => (
+                    <div
+                      key={fee.id}
+                      className="p-4 border rounded-lg space-y-4"
+                    >
+                      <div className="flex justify-between items-center gap-4">
+                        <FormField
+                          control={form.control}
+                          name={`fees.${index}.name`}
+                          render={({ field }) => (
+                            <FormItem className="flex-1">
+                              <FormControl>
+                                <Input
+                                  placeholder="Название"
+                                  {...field}
+                                  className="h-9"
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          className="size-6"
+                          onClick={() => removeFee(fee.id)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <FormField
+                          control={form.control}
+                          name={`fees.${index}.type`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel className="text-xs text-muted-foreground">
+                                Тип
+                              </FormLabel>
+                              <Select
+                                onValueChange={field.onChange}
+                                defaultValue={field.value}
+                              >
+                                <FormControl>
+                                  <SelectTrigger className="h-9">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  <SelectItem value="ONE_OFF">
+                                    Разовая
+                                  </SelectItem>
+                                  <SelectItem value="PERIODIC">
+                                    Периодическая
+                                  </SelectItem>
+                                  <SelectItem value="PERCENT_OF_BALANCE">
+                                    % от остатка долга
+                                  </SelectItem>
+                                </SelectContent>
+                              </Select>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name={`fees.${index}.amount`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel className="text-xs text-muted-foreground">
+                                {fee.type === "PERCENT_OF_BALANCE"
+                                  ? "Процент от остатка"
+                                  : "Сумма"}
+                              </FormLabel>
+                              <FormControl>
+                                <Input
+                                  type="number"
+                                  placeholder="0"
+                                  {...field}
+                                  className="h-9"
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        {fee.type === "ONE_OFF" ? (
+                          <FormField
+                            control={form.control}
+                            name={`fees.${index}.date`}
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel className="text-xs text-muted-foreground">
+                                  Дата
+                                </FormLabel>
+                                <FormControl>
+                                  <Input
+                                    type="date"
+                                    value={
+                                      field.value
+                                        ? format(field.value, "yyyy-MM-dd")
+                                        : ""
+                                    }
+                                    onChange={(e) =>
+                                      field.onChange(
+                                        e.target.valueAsDate ?? undefined
+                                      )
+                                    }
+                                    className="h-9"
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        ) : (
+                          <FormField
+                            control={form.control}
+                            name={`fees.${index}.periodicity`}
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel className="text-xs text-muted-foreground">
+                                  Периодичность
+                                </FormLabel>
+                                <Select
+                                  onValueChange={field.onChange}
+                                  defaultValue={field.value}
+                                >
+                                  <FormControl>
+                                    <SelectTrigger className="h-9">
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                  </FormControl>
+                                  <SelectContent>
+                                    <SelectItem value="MONTHLY">
+                                      Ежемесячно
+                                    </SelectItem>
+                                    <SelectItem value="QUARTERLY">
+                                      Ежеквартально
+                                    </SelectItem>
+                                    <SelectItem value="YEARLY">
+                                      Ежегодно
+                                    </SelectItem>
+                                  </SelectContent>
+                                </Select>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        )}
+                      </div>
+                    </div>
+                  ))}
+
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={addFee}
+                    className="w-full"
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    Добавить комиссию
+                  </Button>
+                </div>
+              </CollapsibleContent>
+            </Collapsible>
+
+            {/* Дополнительные параметры */}
+            <Collapsible className="mb-6" defaultOpen>
+              <div className="flex justify-between items-center gap-2 mb-3">
+                <h4 className="text-sm font-semibold">
+                  Дополнительные параметры
+                </h4>
+                <CollapsibleTrigger asChild>
+                  <Button variant="ghost" size="icon" className="size-8">
+                    <ChevronsUpDown />
+                    <span className="sr-only">Toggle</span>
+                  </Button>
+                </CollapsibleTrigger>
+              </div>
+              <CollapsibleContent>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="roundingDecimals"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Знаки после запятой</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            placeholder="2"
+                            value={field.value ?? ""}
+                            onChange={(e) => {
+                              const value = e.target.value;
+                              field.onChange(
+                                value === "" ? undefined : Number(value)
+                              );
+                            }}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="roundingMode"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Округление</FormLabel>
+                        <Select
+                          onValueChange={field.onChange}
+                          defaultValue={field.value}
+                        >
+                          <SelectTrigger>
+                            <FormControl>
+                              <SelectValue />
+                            </FormControl>
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="HALF_UP">
+                              Математическое
+                            </SelectItem>
+                            <SelectItem value="HALF_EVEN">
+                              Банковское
+                            </SelectItem>
+                            <SelectItem value="TRUNCATE">
+                              Отбрасывание
+                            </SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="dayCountBasis"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>База расчета дней</FormLabel>
+                        <Select
+                          onValueChange={field.onChange}
+                          defaultValue={field.value}
+                        >
+                          <SelectTrigger>
+                            <FormControl>
+                              <SelectValue />
+                            </FormControl>
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="ACTUAL_365">
+                              365 дней в году
+                            </SelectItem>
+                            <SelectItem value="ACTUAL_360">
+                              360 дней в году
+                            </SelectItem>
+                            <SelectItem value="ACTUAL_ACTUAL">
+                              Фактические дни
+                            </SelectItem>
+                            <SelectItem value="ACTUAL_365L">
+                              ACT/365L
+                            </SelectItem>
+                            <SelectItem value="THIRTY_360_US">
+                              30/360 US
+                            </SelectItem>
+                            <SelectItem value="THIRTY_E_360">
+                              30E/360
+                            </SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <div className="flex gap-2">
+                    <FormField
+                      control={form.control}
+                      name="balloonPaymentValue"
+                      render={({ field }) => (
+                        <FormItem className="flex-1">
+                          <FormLabel>Остаточный платеж</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              placeholder="0"
+                              value={field.value ?? ""}
+                              onChange={(e) => {
+                                const value = e.target.value;
+                                field.onChange(
+                                  value === "" ? undefined : Number(value)
+                                );
+                              }}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="balloonPaymentType"
+                      render={({ field }) => (
+                        <FormItem className="w-24 mt-6">
+                          <FormLabel className="sr-only">
+                            Единица остаточного платежа
+                          </FormLabel>
+                          <Select
+                            onValueChange={field.onChange}
+                            defaultValue={field.value}
+                          >
+                            <SelectTrigger>
+                              <FormControl>
+                                <SelectValue />
+                              </FormControl>
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="PERCENT">%</SelectItem>
+                              <SelectItem value="AMOUNT">сумма</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                  <FormField
+                    control={form.control}
+                    name="businessDayConvention"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Платеж в нерабочий день</FormLabel>
+                        <Select
+                          onValueChange={field.onChange}
+                          defaultValue={field.value}
+                        >
+                          <SelectTrigger>
+                            <FormControl>
+                              <SelectValue />
+                            </FormControl>
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="UNADJUSTED">
+                              Не переносить
+                            </SelectItem>
+                            <SelectItem value="FOLLOWING">
+                              На следующий рабочий день
+                            </SelectItem>
+                            <SelectItem value="MODIFIED_FOLLOWING">
+                              На следующий рабочий день в пределах месяца
+                            </SelectItem>
+                            <SelectItem value="PRECEDING">
+                              На предыдущий рабочий день
+                            </SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="holidayCalendar"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Календарь</FormLabel>
+                        <Select
+                          onValueChange={field.onChange}
+                          defaultValue={field.value}
+                        >
+                          <SelectTrigger>
+                            <FormControl>
+                              <SelectValue />
+                            </FormControl>
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="RU">
+                              Производственный календарь РФ
+                            </SelectItem>
+                            <SelectItem value="WEEKENDS">
+                              Только выходные
+                            </SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="customHolidays"
+                    render={({ field }) => (
+                      <FormItem className="md:col-span-2">
+                        <FormLabel>Дополнительные нерабочие дни</FormLabel>
+                        <FormControl>
+                          <Input
+                            placeholder="01.09.2025, 31.12.2025"
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                <div className="space-y-3 mt-4">
+                  <FormField
+                    control={form.control}
+                    name="interestOnlyFirstPeriod"
+                    render={({ field }) => (
+                      <FormItem className="flex items-center gap-2">
+                        <FormControl>
+                          <Checkbox
+                            checked={field.value}
+                            onCheckedChange={field.onChange}
+                          />
+                        </FormControl>
+                        <FormLabel className="text-sm">
+                          Первый месяц проценты
+                        </FormLabel>
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              </CollapsibleContent>
+            </Collapsible>
+
+            {/* Библиотека сценариев */}
+            <Collapsible className="mb-6">
+              <div className="flex justify-between items-center gap-2 mb-3">
+                <h4 className="text-sm font-semibold">Библиотека сценариев</h4>
+                <CollapsibleTrigger asChild>
+                  <Button variant="ghost" size="icon" className="size-8">
+                    <ChevronsUpDown />
+                    <span className="sr-only">Toggle</span>
+                  </Button>
+                </CollapsibleTrigger>
+              </div>
+              <CollapsibleContent>
+                <ScenarioLibrary
+                  getForm={() => form.getValues()}
+                  onLoad={(values) => form.reset(values)}
+                />
+              </CollapsibleContent>
+            </Collapsible>
+
+            {/* Кнопки расчета и ссылки на расчет */}
+            <div className="flex flex-wrap justify-center gap-2">
+              <Button type="submit" size="lg" className="px-8">
+                Рассчитать кредит
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                size="lg"
+                onClick={onShare}
+              >
+                <Link2 className="h-4 w-4 mr-2" />
+                {isLinkCopied ? "Ссылка скопирована" : "Поделиться"}
               </Button>
             </div>
           </form>
@@ -1,11 +1,33 @@
 "use client";
 
 import { DataTable } from "@/components/ui/data-table";
-import { LoanScheduleEntry, generateLoanSchedule } from "@/lib/loan-lib";
+import {
+  LoanEntryTrace,
+  LoanParamsError,
+  LoanScheduleEntry,
+  LoanScheduleParams,
+  LoanSolveError,
+  LoanValidationIssue,
+  PAYMENTS_PER_YEAR,
+  PaymentFrequency,
+  calculateLoanCost,
+  generateLoanSchedule,
+  getSolveErrorMessage,
+  roundDecimals,
+  solveLoan,
+} from "@loan-calc/loan-lib";
+import { FORM_SOLVE_TARGETS, toLoanScheduleParams } from "@/lib/loan-input-form-schema";
+import {
+  ScheduleExportParams,
+  exportScheduleToCsv,
+  exportScheduleToXlsx,
+} from "@/lib/schedule-export";
+import { exportScheduleToIcs } from "@/lib/schedule-ics";
+import { LoanScenario } from "@/lib/scenario-comparison";
 import { CSSProperties, useState } from "react";
 import { LoanInputForm } from "../types/loan-input-form.type";
 import { ColumnDef, Row } from "@tanstack/react-table";
-import { differenceInMonths, format } from "date-fns";
+import { differenceInCalendarDays, differenceInMonths, format } from "date-fns";
 import dynamic from "next/dynamic";
 import {
   ChartConfig,
@@ -32,7 +54,17 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { BarChart3Icon, CalculatorIcon } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { BarChart3Icon, CalculatorIcon, CalendarPlusIcon, DownloadIcon, GitCompareIcon } from "lucide-react";
+import ScenarioComparison from "./scenario-comparison";
+import EntryTrace from "./entry-trace";
 
 const LoanInputCard = dynamic(() => import("./loan-input-card"), {
   ssr: false,
@@ -45,18 +77,27 @@ interface LoanScheduleRow {
   principalAmount: string;
   interestAmount: string;
   remainingPrincipal: string;
+  earlyRepaymentAmount: string;
   isEarlyRepayment: boolean;
+  isPaymentHoliday: boolean;
+  fees: Record<string, string>;
+  trace?: LoanEntryTrace;
 }
 
 interface LoanSummary {
   totalPayments: number;
   totalPrincipal: number;
   totalInterest: number;
+  totalFees: number;
   loanTerm: string;
   monthlyPayment: number;
+  paymentFrequency: PaymentFrequency;
+  fullCostPercent: number;
+  effectiveAnnualRatePercent: number;
+  solvedValue?: string;
 }
 
-const columns: ColumnDef<LoanScheduleRow>[] = [
+const baseColumns: ColumnDef<LoanScheduleRow>[] = [
   {
     header: "№",
     accessorKey: "month",
@@ -83,6 +124,26 @@ const columns: ColumnDef<LoanScheduleRow>[] = [
   },
 ];
 
+// Досрочные погашения вместе с платежом показываются отдельной колонкой, как в
+// графиках банков. Колонка на каждую комиссию из настроек кредита
+function getColumns(
+  feeNames: string[],
+  hasEarlyRepayments: boolean
+): ColumnDef<LoanScheduleRow>[] {
+  return [
+    ...baseColumns.slice(0, 4),
+    ...(hasEarlyRepayments
+      ? [{ header: "В т.ч. досрочно", accessorKey: "earlyRepaymentAmount" }]
+      : []),
+    ...baseColumns.slice(4),
+    ...feeNames.map((name) => ({
+      id: `fee-${name}`,
+      header: name,
+      accessorFn: (row: LoanScheduleRow) => row.fees[name] ?? "",
+    })),
+  ];
+}
+
 const chartConfig = {
   paymentAmount: {
     label: "Общий платёж",
@@ -94,39 +155,153 @@ const chartConfig = {
   },
 } satisfies ChartConfig;
 
-const COLORS = ["#10b981", "#60a5fa"];
+const PAYMENT_LABELS: Record<PaymentFrequency, string> = {
+  WEEKLY: "Еженедельный платёж",
+  BIWEEKLY: "Платёж раз в две недели",
+  MONTHLY: "Ежемесячный платёж",
+  QUARTERLY: "Ежеквартальный платёж",
+  SEMI_ANNUAL: "Платёж раз в полгода",
+  ANNUAL: "Ежегодный платёж",
+};
+
+const PAYMENT_FREQUENCY_LABELS: Record<PaymentFrequency, string> = {
+  WEEKLY: "Еженедельно",
+  BIWEEKLY: "Раз в две недели",
+  MONTHLY: "Ежемесячно",
+  QUARTERLY: "Ежеквартально",
+  SEMI_ANNUAL: "Раз в полгода",
+  ANNUAL: "Ежегодно",
+};
+
+// Напоминания о платеже в календаре, дней до даты платежа
+const REMINDER_OPTIONS: Record<string, string> = {
+  none: "Без напоминания",
+  "1": "За 1 день",
+  "3": "За 3 дня",
+  "7": "За неделю",
+};
+
+const COLORS = ["#10b981", "#60a5fa", "#f59e0b"];
+
+function downloadFile(content: Blob, fileName: string) {
+  const url = URL.createObjectURL(content);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Цифры сводки для PDF-отчета в том же виде, что и на карточке
+function getSummaryFigures(summary: LoanSummary): [string, string][] {
+  const formatAmount = (value: number, decimals = 2) =>
+    value.toLocaleString('ru-RU', { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+  return [
+    ["Общая сумма", formatAmount(summary.totalPayments)],
+    ["Основной долг", formatAmount(summary.totalPrincipal)],
+    ["Проценты", formatAmount(summary.totalInterest)],
+    [PAYMENT_LABELS[summary.paymentFrequency], formatAmount(summary.monthlyPayment)],
+    ...(summary.totalFees > 0
+      ? [["Комиссии и страховки", formatAmount(summary.totalFees)] as [string, string]]
+      : []),
+    ["Полная стоимость кредита", `${formatAmount(summary.fullCostPercent, 3)}%`],
+    ["Эффективная ставка", `${formatAmount(summary.effectiveAnnualRatePercent, 3)}%`],
+    ["Срок кредита", summary.loanTerm],
+  ];
+}
 
 export default function Page() {
   const [data, setData] = useState<LoanScheduleEntry[]>([]);
   const [summary, setSummary] = useState<LoanSummary | null>(null);
   const [roundingDecimals, setRoundingDecimals] = useState(2);
+  const [feeNames, setFeeNames] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isChartOpen, setIsChartOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [exportParams, setExportParams] = useState<ScheduleExportParams | null>(null);
+  const [reminderDays, setReminderDays] = useState("1");
+  const [scheduleParams, setScheduleParams] = useState<LoanScheduleParams | null>(null);
+  const [scenarios, setScenarios] = useState<LoanScenario[]>([]);
+  const [scenarioName, setScenarioName] = useState("");
 
-  function onFormSubmit(form: LoanInputForm) {
+  function onFormSubmit(form: LoanInputForm, showIssues: (issues: LoanValidationIssue[]) => void) {
     setIsLoading(true);
     setData([]);
     setSummary(null);
+    setError(null);
+    setExportParams(null);
+    setScheduleParams(null);
     
     // Имитируем небольшую задержку для визуального эффекта
     setTimeout(() => {
-      const { schedule, startMonthlyPayment } = generateLoanSchedule({
-        ...form,
-        termMonths: form.loanTerm * (form.loanTermType === "y" ? 12 : 1),
-        principal: form.loanAmount,
-        annualInterestRatePercent: form.interestRate,
-        earlyRepayments: form.earlyRepayments
-      });
+      // Расчет процентов показывается по клику на строку графика
+      const loanParams = { ...toLoanScheduleParams(form), includeTrace: true };
+
+      // Подбор одного из параметров по остальным
+      const solveFor = form.solveFor && form.solveFor !== "NONE" ? FORM_SOLVE_TARGETS[form.solveFor] : null;
+      let solution: ReturnType<typeof solveLoan> | null = null;
+      let result: ReturnType<typeof generateLoanSchedule>;
+      try {
+        solution = solveFor
+          ? solveLoan({
+              ...loanParams,
+              paymentAmount: form.paymentAmount,
+              solveFor,
+              [solveFor]: undefined,
+            })
+          : null;
+        result = solution ?? generateLoanSchedule(loanParams);
+      } catch (e) {
+        // Проверки, которым нужен расчет, например платеж меньше процентов,
+        // показываются у полей формы так же, как ошибки схемы
+        if (e instanceof LoanParamsError) {
+          showIssues(e.issues);
+          setError("Параметры не прошли проверку, исправьте отмеченные поля");
+        } else if (e instanceof LoanSolveError) {
+          setError(getSolveErrorMessage(e));
+        } else {
+          setError(`Не удалось рассчитать график: ${(e as Error).message}`);
+        }
+        setIsLoading(false);
+        return;
+      }
+
+      const { schedule, startMonthlyPayment, totals } = result;
+      
+      let solvedValue: string | undefined;
+      switch (solveFor) {
+        case "principal":
+          solvedValue = `Сумма кредита ${solution.principal.toLocaleString('ru-RU')}`;
+          break;
+        case "annualInterestRatePercent":
+          solvedValue = `Ставка ${solution.annualInterestRatePercent.toLocaleString('ru-RU')}%`;
+          break;
+        case "termMonths":
+          solvedValue = `Срок ${solution.termMonths} мес.`;
+          break;
+        case "paymentAmount":
+          solvedValue = `Платёж ${solution.paymentAmount.toLocaleString('ru-RU')}`;
+          break;
+      }
       
       setData(schedule);
       setRoundingDecimals(form.roundingDecimals || 2);
+      setFeeNames((form.fees || []).map((fee) => fee.name));
       
       // Вычисляем сводку по кредиту
-      const totalPayments = schedule.reduce((sum, item) => sum + item.paymentAmount, 0);
-      const totalPrincipal = schedule.reduce((sum, item) => sum + item.principalAmount, 0);
-      const totalInterest = schedule.reduce((sum, item) => sum + item.interestAmount, 0);
+      const totalFees = totals.totalFeeAmount;
+      const totalPayments = roundDecimals(totals.totalPaymentAmount + totalFees, form.roundingDecimals ?? 2);
+      const totalPrincipal = totals.totalPrincipalAmount;
+      const totalInterest = totals.totalInterestAmount;
       
-      const months = differenceInMonths(schedule[schedule.length - 1].paymentDate, schedule[0].paymentDate)+1;
+      // Строки только с комиссиями не влияют на срок
+      const payments = schedule.filter((item) => item.paymentAmount > 0);
+      const paymentFrequency = form.paymentFrequency ?? "MONTHLY";
+      const lastPaymentDate = payments[payments.length - 1].paymentDate;
+      // Недельные платежи не привязаны к дню месяца, срок считаем по дням
+      const months = paymentFrequency === "WEEKLY" || paymentFrequency === "BIWEEKLY"
+        ? Math.round(differenceInCalendarDays(lastPaymentDate, form.issueDate) / (365.25 / 12))
+        : differenceInMonths(lastPaymentDate, payments[0].paymentDate) + 12 / PAYMENTS_PER_YEAR[paymentFrequency];
       const years = Math.floor(months / 12);
       const remainingMonths = months % 12;
       
@@ -140,23 +315,104 @@ export default function Page() {
       }
       
       const monthlyPayment = startMonthlyPayment;
+
+      // Полная стоимость кредита и эффективная ставка
+      const { fullCostPercent, effectiveAnnualRatePercent } = calculateLoanCost({
+        schedule,
+        issueDate: form.issueDate,
+        issueAmount: solution?.principal ?? form.loanAmount,
+      });
       
       setSummary({
         totalPayments,
         totalPrincipal,
         totalInterest,
+        totalFees,
         loanTerm,
-        monthlyPayment
+        monthlyPayment,
+        paymentFrequency,
+        fullCostPercent,
+        effectiveAnnualRatePercent,
+        solvedValue
+      });
+
+      // Данные для выгрузки в CSV, XLSX, PDF и календарь
+      const scheduleParams = solution?.scheduleParams ?? loanParams;
+      setScheduleParams(scheduleParams);
+      setExportParams({
+        schedule,
+        totals,
+        loanCost: { fullCostPercent, effectiveAnnualRatePercent },
+        feeNames: (form.fees || []).map((fee) => fee.name),
+        roundingDecimals: form.roundingDecimals ?? 2,
+        parameters: [
+          ["Сумма кредита", scheduleParams.principal],
+          ["Процентная ставка, %", scheduleParams.annualInterestRatePercent],
+          ["Срок, мес.", scheduleParams.termMonths],
+          ["Тип платежа", scheduleParams.loanType === "ANNUITY" ? "Аннуитетный" : "Дифференцированный"],
+          ["Периодичность платежей", PAYMENT_FREQUENCY_LABELS[paymentFrequency]],
+          ["Дата выдачи", format(form.issueDate, "dd.MM.yyyy")],
+          [PAYMENT_LABELS[paymentFrequency], monthlyPayment],
+        ],
       });
       
       setIsLoading(false);
     }, 200);
   }
 
+  // Текущий расчет сохраняется как сценарий с уже подобранными значениями
+  function onSaveScenario() {
+    if (!scheduleParams) {
+      return;
+    }
+    setScenarios([
+      ...scenarios,
+      {
+        id: `scenario-${Date.now()}`,
+        name: scenarioName.trim() || `Сценарий ${scenarios.length + 1}`,
+        params: scheduleParams,
+      },
+    ]);
+    setScenarioName("");
+  }
+
+  async function onExport(fileType: "csv" | "xlsx" | "pdf" | "ics") {
+    if (!exportParams || !summary) {
+      return;
+    }
+    const fileName = `loan-schedule-${format(new Date(), "yyyy-MM-dd")}.${fileType}`;
+    try {
+      let content: Blob;
+      if (fileType === "csv") {
+        content = new Blob([exportScheduleToCsv(exportParams)], { type: "text/csv;charset=utf-8" });
+      } else if (fileType === "ics") {
+        // В календарь попадают только предстоящие платежи
+        content = new Blob([exportScheduleToIcs({
+          schedule: exportParams.schedule,
+          roundingDecimals: exportParams.roundingDecimals,
+          reminderDaysBefore: reminderDays === "none" ? [] : [Number(reminderDays)],
+          fromDate: new Date(),
+          loanId: scheduleParams ? `${format(scheduleParams.issueDate, "yyyyMMdd")}-${scheduleParams.principal}` : undefined,
+        })], { type: "text/calendar;charset=utf-8" });
+      } else if (fileType === "xlsx") {
+        content = await exportScheduleToXlsx(exportParams);
+      } else {
+        // pdfmake со шрифтами весит много, грузим его только по запросу
+        const { exportScheduleToPdf } = await import("@/lib/schedule-pdf");
+        content = await exportScheduleToPdf({ ...exportParams, summary: getSummaryFigures(summary) });
+      }
+      downloadFile(content, fileName);
+    } catch (e) {
+      console.warn("Failed to export loan schedule", e);
+      setError("Не удалось выгрузить график платежей");
+    }
+  }
+
   const pieChartData = summary ? [
     { name: "Основной долг", value: summary.totalPrincipal },
-    { name: "Проценты", value: summary.totalInterest }
-  ] : [];
+    { name: "Проценты", value: summary.totalInterest },
+    { name: "Комиссии и страховки", value: summary.totalFees }
+  ].filter((entry, index) => index < 2 || entry.value > 0) : [];
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800 p-6">
@@ -188,6 +444,14 @@ export default function Page() {
           </Card>
         )}
 
+        {error && (
+          <Card className="mb-6">
+            <CardContent className="flex items-center justify-center h-32">
+              <div className="text-center text-red-600 dark:text-red-400">{error}</div>
+            </CardContent>
+          </Card>
+        )}
+
         {summary && (
           <div className="space-y-6">
             {/* Графики и таблица в сетке */}
@@ -200,7 +464,7 @@ export default function Page() {
                     Структура платежей
                   </CardTitle>
                   <CardDescription>
-                    Распределение общей суммы по основному долгу и процентам
+                    Распределение общей суммы по основному долгу, процентам и комиссиям
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
@@ -225,7 +489,7 @@ export default function Page() {
                   {/* Легенда с процентами */}
                   <div className="mt-6 space-y-3">
                     {pieChartData.map((entry, index) => {
-                      const percentage = ((entry.value / (summary.totalPrincipal + summary.totalInterest)) * 100).toFixed(1);
+                      const percentage = ((entry.value / summary.totalPayments) * 100).toFixed(1);
                       return (
                         <div key={entry.name} className="flex items-center justify-between">
                           <div className="flex items-center gap-3">
@@ -298,7 +562,36 @@ export default function Page() {
                           maximumFractionDigits: 2 
                         })}
                       </div>
-                      <div className="text-xs text-purple-600 dark:text-purple-400">Ежемесячный платёж</div>
+                      <div className="text-xs text-purple-600 dark:text-purple-400">{PAYMENT_LABELS[summary.paymentFrequency]}</div>
+                    </div>
+                    {summary.totalFees > 0 && (
+                      <div className="text-center p-3 bg-amber-50 dark:bg-amber-950 rounded-lg sm:col-span-2">
+                        <div className="text-lg font-bold text-amber-600 dark:text-amber-400 break-words">
+                          {summary.totalFees.toLocaleString('ru-RU', { 
+                            minimumFractionDigits: 2, 
+                            maximumFractionDigits: 2 
+                          })}
+                        </div>
+                        <div className="text-xs text-amber-600 dark:text-amber-400">Комиссии и страховки</div>
+                      </div>
+                    )}
+                    <div className="text-center p-3 bg-rose-50 dark:bg-rose-950 rounded-lg">
+                      <div className="text-lg font-bold text-rose-600 dark:text-rose-400 break-words">
+                        {summary.fullCostPercent.toLocaleString('ru-RU', { 
+                          minimumFractionDigits: 3, 
+                          maximumFractionDigits: 3 
+                        })}%
+                      </div>
+                      <div className="text-xs text-rose-600 dark:text-rose-400">Полная стоимость кредита</div>
+                    </div>
+                    <div className="text-center p-3 bg-teal-50 dark:bg-teal-950 rounded-lg">
+                      <div className="text-lg font-bold text-teal-600 dark:text-teal-400 break-words">
+                        {summary.effectiveAnnualRatePercent.toLocaleString('ru-RU', { 
+                          minimumFractionDigits: 3, 
+                          maximumFractionDigits: 3 
+                        })}%
+                      </div>
+                      <div className="text-xs text-teal-600 dark:text-teal-400">Эффективная ставка</div>
                     </div>
                   </div>
                   
@@ -306,6 +599,11 @@ export default function Page() {
                     <Badge variant="secondary" className="text-base px-3 py-1">
                       Срок кредита: {summary.loanTerm}
                     </Badge>
+                    {summary.solvedValue && (
+                      <Badge className="text-base px-3 py-1 ml-2">
+                        Подобрано: {summary.solvedValue}
+                      </Badge>
+                    )}
                   </div>
 
                   {/* Кнопка графика платежей */}
@@ -407,22 +705,69 @@ export default function Page() {
                       </div>
                     </DialogContent>
                   </Dialog>
+
+                  {/* Сохранение расчета для сравнения */}
+                  <div className="flex gap-2 mt-2">
+                    <Input
+                      placeholder={`Сценарий ${scenarios.length + 1}`}
+                      value={scenarioName}
+                      onChange={(e) => setScenarioName(e.target.value)}
+                    />
+                    <Button variant="outline" onClick={onSaveScenario}>
+                      <GitCompareIcon className="h-4 w-4 mr-2" />
+                      Сохранить для сравнения
+                    </Button>
+                  </div>
                 </CardContent>
               </Card>
             </div>
 
             {/* Таблица платежей */}
             <Card>
-              <CardHeader>
-                <CardTitle>Таблица платежей</CardTitle>
-                <CardDescription>
-                  Детальный график платежей по кредиту
-                </CardDescription>
+              <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+                <div className="space-y-1.5">
+                  <CardTitle>Таблица платежей</CardTitle>
+                  <CardDescription>
+                    Детальный график платежей по кредиту
+                  </CardDescription>
+                </div>
+                {/* Выгрузка графика */}
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => onExport("csv")}>
+                    <DownloadIcon className="h-4 w-4 mr-2" />
+                    CSV
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => onExport("xlsx")}>
+                    <DownloadIcon className="h-4 w-4 mr-2" />
+                    XLSX
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => onExport("pdf")}>
+                    <DownloadIcon className="h-4 w-4 mr-2" />
+                    PDF
+                  </Button>
+                  <Select value={reminderDays} onValueChange={setReminderDays}>
+                    <SelectTrigger className="h-9 w-40" aria-label="Напоминание">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(REMINDER_OPTIONS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button variant="outline" size="sm" onClick={() => onExport("ics")}>
+                    <CalendarPlusIcon className="h-4 w-4 mr-2" />
+                    В календарь
+                  </Button>
+                </div>
               </CardHeader>
               <CardContent>
                 <div className="max-h-96 overflow-auto">
                   <DataTable
-                    columns={columns}
+                    columns={getColumns(
+                      feeNames,
+                      data.some((item) => item.earlyRepaymentAmount)
+                    )}
                     data={data.map((item, index) => ({
                       month: index + 1,
                       paymentDate: format(item.paymentDate, "dd.MM.yyyy"),
@@ -430,11 +775,27 @@ export default function Page() {
                       principalAmount: item.principalAmount.toFixed(roundingDecimals),
                       interestAmount: item.interestAmount.toFixed(roundingDecimals),
                       remainingPrincipal: item.remainingPrincipal.toFixed(roundingDecimals),
+                      earlyRepaymentAmount: item.earlyRepaymentAmount?.toFixed(roundingDecimals) ?? "",
                       isEarlyRepayment: item.isEarlyRepayment,
+                      isPaymentHoliday: Boolean(item.paymentHoliday),
+                      fees: Object.fromEntries(
+                        Object.entries(item.fees ?? {}).map(([name, amount]) => [
+                          name,
+                          amount.toFixed(roundingDecimals),
+                        ])
+                      ),
+                      trace: item.trace,
                     }))}
+                    renderRowPopover={(row) => (
+                      <EntryTrace trace={row.original.trace} roundingDecimals={roundingDecimals} />
+                    )}
                     meta={{
                       getRowStyles: (row: Row<LoanScheduleRow>): CSSProperties => ({
-                        background: row.original.isEarlyRepayment ? "red" : undefined,
+                        background: row.original.isEarlyRepayment
+                          ? "red"
+                          : row.original.isPaymentHoliday
+                            ? "orange"
+                            : undefined,
                       }),
                     }}
                   />
@@ -444,6 +805,17 @@ export default function Page() {
           </div>
         )}
 
+        {/* Сравнение сохраненных сценариев */}
+        {scenarios.length > 0 && (
+          <div className="mt-6">
+            <ScenarioComparison
+              scenarios={scenarios}
+              roundingDecimals={roundingDecimals}
+              onRemove={(id) => setScenarios(scenarios.filter((scenario) => scenario.id !== id))}
+            />
+          </div>
+        )}
+
         {/* Футер */}
         <footer className="mt-16 pt-8 border-t border-slate-200 dark:border-slate-700">
           <div className="text-center text-sm text-slate-600 dark:text-slate-400">
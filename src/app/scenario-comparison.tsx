@@ -0,0 +1,382 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  LoanScenario,
+  alignSchedules,
+  calculateScenario,
+  getRemainingPrincipalSeries,
+  getScenarioDelta,
+} from "@/lib/scenario-comparison";
+import { format } from "date-fns";
+import { Trash2 } from "lucide-react";
+import { useMemo, useState } from "react";
+import { CartesianGrid, Line, LineChart, XAxis } from "recharts";
+
+const SCENARIO_COLORS = [
+  "#10b981",
+  "#60a5fa",
+  "#f59e0b",
+  "#ef4444",
+  "#8b5cf6",
+  "#14b8a6",
+];
+
+export default function ScenarioComparison({
+  scenarios,
+  roundingDecimals,
+  onRemove,
+}: {
+  scenarios: LoanScenario[];
+  roundingDecimals: number;
+  onRemove: (id: string) => void;
+}) {
+  const [baseId, setBaseId] = useState<string | undefined>();
+  const [otherId, setOtherId] = useState<string | undefined>();
+
+  const results = useMemo(() => {
+    return scenarios.flatMap((scenario) => {
+      try {
+        return [calculateScenario(scenario)];
+      } catch (error) {
+        console.warn(`Failed to calculate scenario ${scenario.name}`, error);
+        return [];
+      }
+    });
+  }, [scenarios]);
+
+  const base =
+    results.find((result) => result.scenario.id === baseId) ?? results[0];
+  const other =
+    results.find(
+      (result) =>
+        result.scenario.id === otherId &&
+        result.scenario.id !== base?.scenario.id
+    ) ?? results.find((result) => result !== base);
+
+  const formatAmount = (value: number) =>
+    value.toLocaleString("ru-RU", {
+      minimumFractionDigits: roundingDecimals,
+      maximumFractionDigits: roundingDecimals,
+    });
+  const formatDelta = (value: number, text = formatAmount(value)) =>
+    value > 0 ? `+${text}` : text;
+
+  const chartConfig: ChartConfig = Object.fromEntries(
+    results.map((result, index) => [
+      `scenario${index}`,
+      {
+        label: result.scenario.name,
+        color: SCENARIO_COLORS[index % SCENARIO_COLORS.length],
+      },
+    ])
+  );
+  const chartData = getRemainingPrincipalSeries(
+    results.map((result) => result.schedule),
+    results.map((result) => result.scenario.params.principal)
+  ).map((point) => ({
+    paymentDate: point.paymentDate,
+    ...Object.fromEntries(
+      point.remainingPrincipal.map((value, index) => [
+        `scenario${index}`,
+        Number(value.toFixed(roundingDecimals)),
+      ])
+    ),
+  }));
+
+  if (results.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Сравнение сценариев</CardTitle>
+        <CardDescription>
+          Экономия считается относительно базового сценария, положительные
+          значения — в пользу сравниваемого
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Итоги по сценариям */}
+        <div className="overflow-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Сценарий</TableHead>
+                <TableHead className="text-right">Первый платеж</TableHead>
+                <TableHead className="text-right">Проценты</TableHead>
+                <TableHead className="text-right">Всего выплат</TableHead>
+                <TableHead className="text-right">Последний платеж</TableHead>
+                <TableHead className="text-right">
+                  Экономия на процентах
+                </TableHead>
+                <TableHead className="text-right">Сокращение срока</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {results.map((result, index) => {
+                const delta = getScenarioDelta(base, result, roundingDecimals);
+                const isBase = result === base;
+                return (
+                  <TableRow key={result.scenario.id}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <div
+                          className="w-3 h-3 rounded"
+                          style={{
+                            backgroundColor:
+                              SCENARIO_COLORS[index % SCENARIO_COLORS.length],
+                          }}
+                        />
+                        {result.scenario.name}
+                        {isBase && <Badge variant="secondary">База</Badge>}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatAmount(result.startPayment)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatAmount(result.totals.totalInterestAmount)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatAmount(
+                        result.totals.totalPaymentAmount +
+                          result.totals.totalFeeAmount
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {format(result.lastPaymentDate, "dd.MM.yyyy")}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {isBase ? "—" : formatDelta(delta.interestSaved)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {isBase
+                        ? "—"
+                        : formatDelta(
+                            delta.termSavedMonths,
+                            `${delta.termSavedMonths} мес.`
+                          )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        aria-label="Удалить сценарий"
+                        onClick={() => onRemove(result.scenario.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+
+        {/* Остаток долга по сценариям */}
+        <ChartContainer
+          config={chartConfig}
+          className="aspect-auto h-[300px] w-full"
+        >
+          <LineChart data={chartData}>
+            <CartesianGrid vertical={false} />
+            <XAxis
+              dataKey="paymentDate"
+              tickLine={false}
+              axisLine={false}
+              tickMargin={8}
+              minTickGap={32}
+              tickFormatter={(value) =>
+                new Date(value).toLocaleDateString("ru-RU", {
+                  month: "short",
+                  year: "numeric",
+                })
+              }
+            />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  labelFormatter={(value) =>
+                    new Date(value).toLocaleDateString("ru-RU", {
+                      month: "long",
+                      year: "numeric",
+                      day: "numeric",
+                    })
+                  }
+                  indicator="line"
+                />
+              }
+            />
+            {results.map((result, index) => (
+              <Line
+                key={result.scenario.id}
+                dataKey={`scenario${index}`}
+                type="stepAfter"
+                stroke={SCENARIO_COLORS[index % SCENARIO_COLORS.length]}
+                dot={false}
+              />
+            ))}
+            <ChartLegend content={<ChartLegendContent />} />
+          </LineChart>
+        </ChartContainer>
+
+        {/* Построчное сравнение графиков */}
+        {other && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <Select
+                value={base.scenario.id}
+                onValueChange={(value) => setBaseId(value)}
+              >
+                <SelectTrigger className="w-48" aria-label="Базовый сценарий">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {results.map((result) => (
+                    <SelectItem
+                      key={result.scenario.id}
+                      value={result.scenario.id}
+                    >
+                      {result.scenario.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span>против</span>
+              <Select
+                value={other.scenario.id}
+                onValueChange={(value) => setOtherId(value)}
+              >
+                <SelectTrigger
+                  className="w-48"
+                  aria-label="Сравниваемый сценарий"
+                >
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {results
+                    .filter((result) => result !== base)
+                    .map((result) => (
+                      <SelectItem
+                        key={result.scenario.id}
+                        value={result.scenario.id}
+                      >
+                        {result.scenario.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="max-h-96 overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Дата</TableHead>
+                    <TableHead className="text-right">
+                      Платеж ({base.scenario.name})
+                    </TableHead>
+                    <TableHead className="text-right">
+                      Платеж ({other.scenario.name})
+                    </TableHead>
+                    <TableHead className="text-right">Разница</TableHead>
+                    <TableHead className="text-right">
+                      Остаток ({base.scenario.name})
+                    </TableHead>
+                    <TableHead className="text-right">
+                      Остаток ({other.scenario.name})
+                    </TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {alignSchedules(base.schedule, other.schedule).map(
+                    (row, index) => {
+                      const difference =
+                        (row.other?.paymentAmount ?? 0) -
+                        (row.base?.paymentAmount ?? 0);
+                      return (
+                        <TableRow
+                          key={index}
+                          className={
+                            row.base?.isEarlyRepayment ||
+                            row.other?.isEarlyRepayment
+                              ? "bg-red-50 dark:bg-red-950"
+                              : undefined
+                          }
+                        >
+                          <TableCell>
+                            {format(row.paymentDate, "dd.MM.yyyy")}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {row.base
+                              ? formatAmount(row.base.paymentAmount)
+                              : "—"}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {row.other
+                              ? formatAmount(row.other.paymentAmount)
+                              : "—"}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {formatDelta(
+                              Number(difference.toFixed(roundingDecimals))
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {row.base
+                              ? formatAmount(row.base.remainingPrincipal)
+                              : "—"}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {row.other
+                              ? formatAmount(row.other.remainingPrincipal)
+                              : "—"}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    }
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
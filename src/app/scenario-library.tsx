@@ -0,0 +1,330 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  SavedScenario,
+  createScenarioId,
+  deleteScenario,
+  exportScenarioDocument,
+  importScenarioDocument,
+  listScenarios,
+  saveScenario,
+} from "@/lib/scenario-library";
+import { LoanInputForm } from "@/types/loan-input-form.type";
+import { format } from "date-fns";
+import {
+  Copy,
+  Download,
+  FolderOpen,
+  Pencil,
+  Save,
+  Trash2,
+  Upload,
+} from "lucide-react";
+import { ChangeEvent, useEffect, useRef, useState } from "react";
+
+// Теги вводятся через запятую
+function parseTags(value: string): string[] {
+  return Array.from(
+    new Set(
+      value
+        .split(",")
+        .map((tag) => tag.trim())
+        .filter(Boolean)
+    )
+  );
+}
+
+function downloadJson(content: string, fileName: string) {
+  const url = URL.createObjectURL(
+    new Blob([content], { type: "application/json" })
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function ScenarioLibrary({
+  getForm,
+  onLoad,
+}: {
+  getForm: () => LoanInputForm;
+  onLoad: (form: LoanInputForm) => void;
+}) {
+  const [scenarios, setScenarios] = useState<SavedScenario[]>([]);
+  const [name, setName] = useState("");
+  const [tags, setTags] = useState("");
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState("");
+  const [editingTags, setEditingTags] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  async function reload() {
+    try {
+      setScenarios(await listScenarios());
+    } catch (e) {
+      console.warn("Failed to load saved scenarios", e);
+      setError("Хранилище сценариев недоступно");
+    }
+  }
+
+  useEffect(() => {
+    reload();
+  }, []);
+
+  // Все изменения сразу пишутся в IndexedDB, список перечитывается
+  async function update(action: () => Promise<void>) {
+    setError(null);
+    try {
+      await action();
+    } catch (e) {
+      console.warn("Failed to update saved scenarios", e);
+      setError("Не удалось сохранить изменения");
+    }
+    await reload();
+  }
+
+  function onSave() {
+    const now = new Date();
+    update(() =>
+      saveScenario({
+        id: createScenarioId(),
+        name: name.trim() || `Сценарий ${scenarios.length + 1}`,
+        tags: parseTags(tags),
+        form: getForm(),
+        createdAt: now,
+        updatedAt: now,
+      })
+    );
+    setName("");
+    setTags("");
+  }
+
+  function onStartEditing(scenario: SavedScenario) {
+    setEditingId(scenario.id);
+    setEditingName(scenario.name);
+    setEditingTags(scenario.tags.join(", "));
+  }
+
+  function onSaveEditing(scenario: SavedScenario) {
+    update(() =>
+      saveScenario({
+        ...scenario,
+        name: editingName.trim() || scenario.name,
+        tags: parseTags(editingTags),
+        updatedAt: new Date(),
+      })
+    );
+    setEditingId(null);
+  }
+
+  function onDuplicate(scenario: SavedScenario) {
+    const now = new Date();
+    update(() =>
+      saveScenario({
+        ...scenario,
+        id: createScenarioId(),
+        name: `${scenario.name} (копия)`,
+        createdAt: now,
+        updatedAt: now,
+      })
+    );
+  }
+
+  async function onImport(event: ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+    setError(null);
+    try {
+      const scenario = importScenarioDocument(await file.text());
+      await saveScenario(scenario);
+    } catch (e) {
+      console.warn("Failed to import scenario", e);
+      setError(`Не удалось импортировать сценарий: ${(e as Error).message}`);
+    }
+    await reload();
+  }
+
+  const allTags = Array.from(
+    new Set(scenarios.flatMap((scenario) => scenario.tags))
+  ).sort();
+  const visibleScenarios = tagFilter
+    ? scenarios.filter((scenario) => scenario.tags.includes(tagFilter))
+    : scenarios;
+
+  return (
+    <div className="space-y-4">
+      {/* Сохранение текущих параметров */}
+      <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto_auto] gap-2">
+        <Input
+          placeholder="Название"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <Input
+          placeholder="Теги через запятую"
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+        />
+        <Button type="button" variant="outline" onClick={onSave}>
+          <Save className="h-4 w-4 mr-2" />
+          Сохранить
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => fileInputRef.current?.click()}
+        >
+          <Upload className="h-4 w-4 mr-2" />
+          Импорт JSON
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={onImport}
+        />
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {allTags.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          <Badge
+            variant={tagFilter ? "outline" : "default"}
+            className="cursor-pointer"
+            onClick={() => setTagFilter(null)}
+          >
+            Все
+          </Badge>
+          {allTags.map((tag) => (
+            <Badge
+              key={tag}
+              variant={tagFilter === tag ? "default" : "outline"}
+              className="cursor-pointer"
+              onClick={() => setTagFilter(tagFilter === tag ? null : tag)}
+            >
+              {tag}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {visibleScenarios.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Сохраненных сценариев пока нет
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {visibleScenarios.map((scenario) =>
+            editingId === scenario.id ? (
+              <div
+                key={scenario.id}
+                className="p-3 border rounded-lg grid grid-cols-1 md:grid-cols-[1fr_1fr_auto_auto] gap-2"
+              >
+                <Input
+                  value={editingName}
+                  onChange={(e) => setEditingName(e.target.value)}
+                />
+                <Input
+                  placeholder="Теги через запятую"
+                  value={editingTags}
+                  onChange={(e) => setEditingTags(e.target.value)}
+                />
+                <Button type="button" onClick={() => onSaveEditing(scenario)}>
+                  Готово
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  onClick={() => setEditingId(null)}
+                >
+                  Отмена
+                </Button>
+              </div>
+            ) : (
+              <div
+                key={scenario.id}
+                className="p-3 border rounded-lg flex flex-wrap items-center justify-between gap-2"
+              >
+                <div className="space-y-1">
+                  <div className="text-sm font-medium">{scenario.name}</div>
+                  <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+                    {format(scenario.updatedAt, "dd.MM.yyyy HH:mm")}
+                    {scenario.tags.map((tag) => (
+                      <Badge key={tag} variant="secondary">
+                        {tag}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex gap-1">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    title="Загрузить в форму"
+                    onClick={() => onLoad(scenario.form)}
+                  >
+                    <FolderOpen className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    title="Переименовать и изменить теги"
+                    onClick={() => onStartEditing(scenario)}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    title="Создать копию"
+                    onClick={() => onDuplicate(scenario)}
+                  >
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    title="Экспорт JSON"
+                    onClick={() =>
+                      downloadJson(
+                        exportScenarioDocument(scenario),
+                        `${scenario.name}.json`
+                      )
+                    }
+                  >
+                    <Download className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    title="Удалить"
+                    onClick={() => update(() => deleteScenario(scenario.id))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,421 @@
+#!/usr/bin/env node
+import { readFileSync } from "node:fs";
+import { extname } from "node:path";
+import { parseArgs } from "node:util";
+import { format } from "date-fns";
+import {
+  LoanScheduleEntry,
+  LoanScheduleTotals,
+  LoanSolveTarget,
+  PaymentHolidayType,
+  solveLoan,
+} from "@loan-calc/loan-lib";
+import { parse as parseYaml } from "yaml";
+import {
+  LoanApiError,
+  LoanScheduleSummary,
+  calculateScheduleRequest,
+  getCalculationError,
+  getScheduleSummary,
+  getValidationError,
+  loanSolveRequestSchema,
+  toScheduleEntryJson,
+} from "../lib/loan-api";
+import { exportScheduleToCsv } from "../lib/schedule-export";
+
+// Коды завершения, на них опираются скрипты CI
+const EXIT_OK = 0;
+const EXIT_CALCULATION_ERROR = 1;
+const EXIT_USAGE_ERROR = 2;
+const EXIT_VALIDATION_ERROR = 3;
+
+const HELP = `Использование: loan-calc [параметры]
+
+Параметры кредита берутся из файла и флагов, флаги имеют приоритет.
+
+  -f, --file <путь>          JSON или YAML (.yaml, .yml) с LoanScheduleParams
+      --principal <сумма>    сумма кредита
+      --rate <процент>       годовая ставка, %
+      --type <тип>           ANNUITY или AMORTIZATION
+      --term <месяцы>        срок в месяцах
+      --issue-date <дата>    дата выдачи, YYYY-MM-DD
+      --frequency <период>   WEEKLY, BIWEEKLY, MONTHLY, QUARTERLY, SEMI_ANNUAL, ANNUAL
+      --payment-day <день>   день платежа
+      --day-count <база>     ACTUAL_365, ACTUAL_360, ACTUAL_ACTUAL, ACTUAL_365L,
+                             THIRTY_360_US, THIRTY_E_360
+      --rounding <знаки>     число знаков после запятой
+      --rounding-mode <вид>  HALF_UP, HALF_EVEN, TRUNCATE
+      --business-day <вид>   UNADJUSTED, FOLLOWING, MODIFIED_FOLLOWING, PRECEDING
+      --calendar <календарь> RU или WEEKENDS
+      --early <погашение>    досрочное погашение, можно указать несколько раз:
+                             дата:сумма[:DECREASE_TERM|DECREASE_PAYMENT
+                             [:ONCE|MONTHLY|QUARTERLY|YEARLY[:дата окончания]]]
+
+      --solve <параметр>     подбор principal, rate, term или payment
+                             по остальным параметрам
+      --payment <сумма>      регулярный платеж для --solve
+
+      --format <формат>      table (по умолчанию), csv или json
+      --summary-only         только итоги, без графика
+  -h, --help                 эта справка
+
+Коды завершения:
+  0  расчет выполнен
+  1  ошибка расчета
+  2  неверные аргументы или файл параметров
+  3  параметры не прошли проверку
+`;
+
+const SOLVE_TARGETS: Record<string, LoanSolveTarget> = {
+  principal: "principal",
+  rate: "annualInterestRatePercent",
+  annualInterestRatePercent: "annualInterestRatePercent",
+  term: "termMonths",
+  termMonths: "termMonths",
+  payment: "paymentAmount",
+  paymentAmount: "paymentAmount",
+};
+
+const PAYMENT_HOLIDAY_LABELS: Record<PaymentHolidayType, string> = {
+  INTEREST_ONLY: "только проценты",
+  CAPITALIZE: "капитализация",
+  DEFER: "отсрочка процентов",
+};
+
+function readParamsFile(path: string): Record<string, unknown> {
+  let content: string;
+  try {
+    content = readFileSync(path, "utf8");
+  } catch (error) {
+    throw new Error(`Не удалось прочитать ${path}: ${error.message}`);
+  }
+  try {
+    const params = [".yaml", ".yml"].includes(extname(path).toLowerCase())
+      ? parseYaml(content)
+      : JSON.parse(content);
+    if (typeof params !== "object" || params === null) {
+      throw new Error("ожидается объект с параметрами кредита");
+    }
+    return params;
+  } catch (error) {
+    throw new Error(`Некорректный файл ${path}: ${error.message}`);
+  }
+}
+
+// дата:сумма[:тип[:периодичность[:дата окончания]]]
+function parseEarlyRepayment(value: string) {
+  const [
+    earlyRepaymentDateStart,
+    earlyRepaymentAmount,
+    repaymentType = "DECREASE_TERM",
+    periodicity = "ONCE",
+    earlyRepaymentDateEnd,
+  ] = value.split(":");
+  if (!earlyRepaymentDateStart || !earlyRepaymentAmount) {
+    throw new Error(`Некорректное досрочное погашение: ${value}`);
+  }
+  return {
+    earlyRepaymentDateStart,
+    earlyRepaymentDateEnd,
+    earlyRepaymentAmount,
+    repaymentType: repaymentType.toUpperCase(),
+    periodicity: periodicity.toUpperCase(),
+  };
+}
+
+function getParams(
+  values: ReturnType<typeof parseCliArgs>["values"]
+): Record<string, unknown> {
+  const params = values.file ? readParamsFile(values.file) : {};
+  const upperCase = (value?: string) => value?.toUpperCase();
+  const flagParams: Record<string, unknown> = {
+    principal: values.principal,
+    annualInterestRatePercent: values.rate,
+    loanType: upperCase(values.type),
+    termMonths: values.term,
+    issueDate: values["issue-date"],
+    paymentFrequency: upperCase(values.frequency),
+    paymentDayNumber: values["payment-day"],
+    dayCountBasis: upperCase(values["day-count"]),
+    roundingDecimals: values.rounding,
+    roundingMode: upperCase(values["rounding-mode"]),
+    businessDayConvention: upperCase(values["business-day"]),
+    holidayCalendar: upperCase(values.calendar),
+    paymentAmount: values.payment,
+  };
+  for (const [key, value] of Object.entries(flagParams)) {
+    if (value !== undefined) {
+      params[key] = value;
+    }
+  }
+  if (values.early?.length) {
+    params.earlyRepayments = [
+      ...((params.earlyRepayments as unknown[]) ?? []),
+      ...values.early.map(parseEarlyRepayment),
+    ];
+  }
+  if (values.solve) {
+    const solveFor = SOLVE_TARGETS[values.solve];
+    if (!solveFor) {
+      throw new Error(`Неизвестный параметр подбора: ${values.solve}`);
+    }
+    params.solveFor = solveFor;
+  }
+  return params;
+}
+
+function parseCliArgs(args: string[]) {
+  return parseArgs({
+    args,
+    options: {
+      file: { type: "string", short: "f" },
+      principal: { type: "string" },
+      rate: { type: "string" },
+      type: { type: "string" },
+      term: { type: "string" },
+      "issue-date": { type: "string" },
+      frequency: { type: "string" },
+      "payment-day": { type: "string" },
+      "day-count": { type: "string" },
+      rounding: { type: "string" },
+      "rounding-mode": { type: "string" },
+      "business-day": { type: "string" },
+      calendar: { type: "string" },
+      early: { type: "string", multiple: true },
+      solve: { type: "string" },
+      payment: { type: "string" },
+      format: { type: "string", default: "table" },
+      "summary-only": { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+}
+
+interface CalculationOutput {
+  schedule: LoanScheduleEntry[];
+  totals: LoanScheduleTotals;
+  summary: LoanScheduleSummary;
+  roundingDecimals: number;
+  /** Solved values, only in --solve mode. */
+  solution?: Record<string, number>;
+}
+
+type CalculationResult = CalculationOutput | { error: LoanApiError };
+
+function calculate(params: Record<string, unknown>): CalculationResult {
+  if (!params.solveFor) {
+    const calculation = calculateScheduleRequest(params);
+    if ("error" in calculation) {
+      return calculation;
+    }
+    return {
+      schedule: calculation.schedule,
+      totals: calculation.summary,
+      summary: calculation.summary,
+      roundingDecimals: calculation.params.roundingDecimals ?? 2,
+    };
+  }
+
+  const validation = loanSolveRequestSchema.safeParse(params);
+  if (!validation.success) {
+    return { error: getValidationError(validation.error) };
+  }
+  try {
+    const result = solveLoan(validation.data);
+    return {
+      schedule: result.schedule,
+      totals: result.totals,
+      summary: getScheduleSummary(result.scheduleParams, result),
+      roundingDecimals: validation.data.roundingDecimals ?? 2,
+      solution: {
+        principal: result.principal,
+        annualInterestRatePercent: result.annualInterestRatePercent,
+        termMonths: result.termMonths,
+        paymentAmount: result.paymentAmount,
+      },
+    };
+  } catch (error) {
+    return { error: getCalculationError(error) };
+  }
+}
+
+const SUMMARY_LABELS: [keyof LoanScheduleSummary, string][] = [
+  ["startPayment", "Регулярный платеж"],
+  ["paymentCount", "Количество платежей"],
+  ["lastPaymentDate", "Последний платеж"],
+  ["totalPaymentAmount", "Всего платежей"],
+  ["totalPrincipalAmount", "Основной долг"],
+  ["totalInterestAmount", "Проценты"],
+  ["totalFeeAmount", "Комиссии и страховки"],
+  ["fullCostPercent", "ПСК, %"],
+  ["effectiveAnnualRatePercent", "Эффективная ставка, %"],
+];
+
+const SOLUTION_LABELS: Record<string, string> = {
+  principal: "Сумма кредита",
+  annualInterestRatePercent: "Ставка, %",
+  termMonths: "Срок, мес.",
+  paymentAmount: "Платеж",
+};
+
+function formatAmount(value: number, decimals: number): string {
+  return value.toLocaleString("ru-RU", {
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals,
+  });
+}
+
+function formatTable(rows: string[][], rightAligned: boolean[]): string {
+  const widths = rows[0].map((_, column) =>
+    Math.max(...rows.map((row) => row[column].length))
+  );
+  return rows
+    .map((row) =>
+      row
+        .map((cell, column) =>
+          rightAligned[column]
+            ? cell.padStart(widths[column])
+            : cell.padEnd(widths[column])
+        )
+        .join("  ")
+        .trimEnd()
+    )
+    .join("\n");
+}
+
+function getSummaryLines(output: CalculationOutput): [string, string][] {
+  const { summary, solution, roundingDecimals } = output;
+  return [
+    ...Object.entries(solution ?? {}).map(
+      ([key, value]) =>
+        [
+          SOLUTION_LABELS[key],
+          key === "principal" || key === "paymentAmount"
+            ? formatAmount(value, roundingDecimals)
+            : String(value),
+        ] as [string, string]
+    ),
+    ...SUMMARY_LABELS.map(([key, label]) => {
+      const value = summary[key];
+      return [
+        label,
+        typeof value === "number" && key !== "paymentCount"
+          ? formatAmount(value, key.endsWith("Percent") ? 3 : roundingDecimals)
+          : String(value),
+      ] as [string, string];
+    }),
+  ];
+}
+
+function printTable(output: CalculationOutput, summaryOnly: boolean) {
+  if (!summaryOnly) {
+    const decimals = output.roundingDecimals;
+    const rows = [
+      ["№", "Дата", "Платеж", "Проценты", "Основной долг", "Остаток", ""],
+      ...output.schedule.map((entry, index) => [
+        String(index + 1),
+        format(entry.paymentDate, "dd.MM.yyyy"),
+        formatAmount(entry.paymentAmount, decimals),
+        formatAmount(entry.interestAmount, decimals),
+        formatAmount(entry.principalAmount, decimals),
+        formatAmount(entry.remainingPrincipal, decimals),
+        entry.isEarlyRepayment
+          ? "досрочно"
+          : entry.paymentHoliday
+            ? PAYMENT_HOLIDAY_LABELS[entry.paymentHoliday]
+            : entry.earlyRepaymentAmount
+              ? `в т.ч. досрочно ${formatAmount(entry.earlyRepaymentAmount, decimals)}`
+              : "",
+      ]),
+    ];
+    console.log(
+      formatTable(rows, [true, false, true, true, true, true, false])
+    );
+    console.log();
+  }
+  console.log(formatTable(getSummaryLines(output), [false, true]));
+}
+
+function printCsv(output: CalculationOutput, summaryOnly: boolean) {
+  if (summaryOnly) {
+    const lines = [
+      ...Object.entries(output.solution ?? {}),
+      ...Object.entries(output.summary),
+    ].map(([key, value]) => `${key};${String(value).replace(".", ",")}`);
+    process.stdout.write(lines.join("\r\n") + "\r\n");
+    return;
+  }
+  // Тот же формат, что и выгрузка CSV в приложении, но без BOM
+  const csv = exportScheduleToCsv({
+    schedule: output.schedule,
+    totals: output.totals,
+    parameters: [],
+    feeNames: Array.from(
+      new Set(output.schedule.flatMap((entry) => Object.keys(entry.fees ?? {})))
+    ),
+    roundingDecimals: output.roundingDecimals,
+  });
+  process.stdout.write(csv.replace(/^\uFEFF/, ""));
+}
+
+function printJson(output: CalculationOutput, summaryOnly: boolean) {
+  const result = {
+    ...output.solution,
+    summary: output.summary,
+    schedule: summaryOnly
+      ? undefined
+      : output.schedule.map(toScheduleEntryJson),
+  };
+  console.log(JSON.stringify(result, null, 2));
+}
+
+function printError(error: LoanApiError) {
+  if (error.code === "VALIDATION_ERROR") {
+    console.error("Параметры не прошли проверку:");
+    for (const issue of error.issues ?? []) {
+      console.error(`  ${issue.path || "(параметры)"}: ${issue.message}`);
+    }
+    return;
+  }
+  console.error(`Ошибка расчета: ${error.message}`);
+}
+
+function main(args: string[]): number {
+  let values: ReturnType<typeof parseCliArgs>["values"];
+  let params: Record<string, unknown>;
+  try {
+    values = parseCliArgs(args).values;
+    if (values.help) {
+      console.log(HELP);
+      return EXIT_OK;
+    }
+    if (!["table", "csv", "json"].includes(values.format)) {
+      throw new Error(`Неизвестный формат: ${values.format}`);
+    }
+    params = getParams(values);
+  } catch (error) {
+    console.error(error.message);
+    console.error("Справка: loan-calc --help");
+    return EXIT_USAGE_ERROR;
+  }
+
+  const output = calculate(params);
+  if ("error" in output) {
+    printError(output.error);
+    return output.error.code === "VALIDATION_ERROR"
+      ? EXIT_VALIDATION_ERROR
+      : EXIT_CALCULATION_ERROR;
+  }
+
+  const summaryOnly = values["summary-only"];
+  if (values.format === "json") {
+    printJson(output, summaryOnly);
+  } else if (values.format === "csv") {
+    printCsv(output, summaryOnly);
+  } else {
+    printTable(output, summaryOnly);
+  }
+  return EXIT_OK;
+}
+
+process.exitCode = main(process.argv.slice(2));
@@ -18,8 +18,9 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table"
+import { Popover, PopoverContent, PopoverTrigger } from "./popover"
 import { ScrollArea } from "./scroll-area"
-import { CSSProperties } from "react"
+import { CSSProperties, ReactNode } from "react"
  
 interface DataTableProps<TData, TValue> {
   columns: ColumnDef<TData, TValue>[]
@@ -28,6 +29,8 @@ interface DataTableProps<TData, TValue> {
     getRowStyles?: (row: Row<TData>) => CSSProperties
   }
   initialState?: InitialTableState
+  /** Content of the popover opened by clicking a row. */
+  renderRowPopover?: (row: Row<TData>) => ReactNode
 }
  
 export function DataTable<TData, TValue>({
@@ -35,6 +38,7 @@ export function DataTable<TData, TValue>({
   data,
   meta,
   initialState,
+  renderRowPopover,
 }: DataTableProps<TData, TValue>) {
   const table = useReactTable({
     data,
@@ -68,19 +72,33 @@ export function DataTable<TData, TValue>({
           </TableHeader>
           <TableBody>
             {table.getRowModel().rows?.length ? (
-              table.getRowModel().rows.map((row) => (
-                <TableRow
-                  key={row.id}
-                  data-state={row.getIsSelected() && "selected"}
-                  style={meta?.getRowStyles(row)} 
-                >
-                  {row.getVisibleCells().map((cell) => (
-                    <TableCell key={cell.id}>
-                      {flexRender(cell.column.columnDef.cell, cell.getContext())}
-                    </TableCell>
-                  ))}
-                </TableRow>
-              ))
+              table.getRowModel().rows.map((row) => {
+                const tableRow = (
+                  <TableRow
+                    key={row.id}
+                    data-state={row.getIsSelected() && "selected"}
+                    style={meta?.getRowStyles(row)}
+                    className={renderRowPopover ? "cursor-pointer" : undefined}
+                  >
+                    {row.getVisibleCells().map((cell) => (
+                      <TableCell key={cell.id}>
+                        {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                )
+                if (!renderRowPopover) {
+                  return tableRow
+                }
+                return (
+                  <Popover key={row.id}>
+                    <PopoverTrigger asChild>{tableRow}</PopoverTrigger>
+                    <PopoverContent className="w-96" align="start">
+                      {renderRowPopover(row)}
+                    </PopoverContent>
+                  </Popover>
+                )
+              })
             ) : (
               <TableRow>
                 <TableCell colSpan={columns.length} className="h-24 text-center">
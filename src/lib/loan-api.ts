@@ -0,0 +1,511 @@
+import { format } from "date-fns";
+import { z } from "zod";
+import {
+  LoanScheduleEntry,
+  LoanScheduleParams,
+  LoanParamsError,
+  LoanScheduleTotals,
+  LoanSolveError,
+  LoanValidationCode,
+  MAX_TERM_MONTHS,
+  calculateLoanCost,
+  generateLoanSchedule,
+  getSolveErrorMessage,
+  getValidationMessage,
+} from "@loan-calc/loan-lib";
+import packageJson from "../../package.json";
+import {
+  balloonPaymentTypeSchema,
+  businessDayConventionSchema,
+  dayCountBasisSchema,
+  earlyRepaymentSchema,
+  feeSchema,
+  holidayCalendarSchema,
+  loanTypeSchema,
+  numberRule,
+  paymentFrequencySchema,
+  paymentHolidaySchema,
+  rateChangeSchema,
+  roundingModeSchema,
+} from "./loan-input-form-schema";
+
+/** Longest list of early repayments, rate changes, fees or holidays. */
+const MAX_REQUEST_ITEMS = 100;
+
+/** Longest list of custom holidays, a few per year over the longest term. */
+const MAX_CUSTOM_HOLIDAYS = 1000;
+
+// Optional here as in `EarlyRepaymentParams`, the form always sets them. Only
+// a fixed amount may be left out, as in `validateLoanScheduleParams`
+const earlyRepaymentRequestSchema = earlyRepaymentSchema
+  .omit({ id: true })
+  .partial({
+    periodicity: true,
+    repaymentType: true,
+    earlyRepaymentAmount: true,
+  })
+  .refine(
+    (earlyRepayment) =>
+      earlyRepayment.earlyRepaymentAmount !== undefined ||
+      (earlyRepayment.earlyRepaymentAmountType ?? "AMOUNT") === "AMOUNT",
+    {
+      message: "Required unless earlyRepaymentAmountType is AMOUNT",
+      path: ["earlyRepaymentAmount"],
+    }
+  );
+
+/**
+ * `LoanScheduleParams` as accepted by the API. The schema only parses the
+ * values, ranges are checked by the engine with the same messages as the form.
+ * The term and the lists are capped here as well, the schedule is calculated
+ * synchronously and a huge one would hold up every other request.
+ */
+export const loanScheduleRequestSchema = z.object({
+  principal: numberRule,
+  annualInterestRatePercent: numberRule,
+  loanType: loanTypeSchema,
+  termMonths: numberRule.max(MAX_TERM_MONTHS),
+  issueDate: z.coerce.date(),
+  paymentFrequency: paymentFrequencySchema.optional(),
+  paymentDayNumber: numberRule.optional(),
+  interestOnlyFirstPeriod: z.boolean().optional(),
+  businessDayConvention: businessDayConventionSchema.optional(),
+  holidayCalendar: holidayCalendarSchema.optional(),
+  customHolidays: z.array(z.coerce.date()).max(MAX_CUSTOM_HOLIDAYS).optional(),
+  dayCountBasis: dayCountBasisSchema.optional(),
+  roundingDecimals: numberRule.optional(),
+  roundingMode: roundingModeSchema.optional(),
+  earlyRepayments: z
+    .array(earlyRepaymentRequestSchema)
+    .max(MAX_REQUEST_ITEMS)
+    .optional(),
+  rateChanges: z
+    .array(rateChangeSchema.omit({ id: true }))
+    .max(MAX_REQUEST_ITEMS)
+    .optional(),
+  fees: z
+    .array(feeSchema.omit({ id: true }))
+    .max(MAX_REQUEST_ITEMS)
+    .optional(),
+  paymentHolidays: z
+    .array(paymentHolidaySchema.omit({ id: true }))
+    .max(MAX_REQUEST_ITEMS)
+    .optional(),
+  balloonPayment: z
+    .object({
+      type: balloonPaymentTypeSchema,
+      value: numberRule,
+    })
+    .optional(),
+  annuityPayment: numberRule.optional(),
+});
+
+/** `LoanSolverParams`, the unknown may be omitted. */
+export const loanSolveRequestSchema = loanScheduleRequestSchema
+  .partial({
+    principal: true,
+    annualInterestRatePercent: true,
+    termMonths: true,
+  })
+  .extend({
+    solveFor: z.enum([
+      "principal",
+      "annualInterestRatePercent",
+      "termMonths",
+      "paymentAmount",
+    ]),
+    paymentAmount: numberRule.optional(),
+  });
+
+export interface LoanApiResponse {
+  status: number;
+  body: unknown;
+}
+
+export interface LoanApiError {
+  code:
+    "INVALID_JSON" | "INVALID_CSV" | "VALIDATION_ERROR" | "CALCULATION_ERROR";
+  message: string;
+  /** `code` is set for issues found by the engine, see `LoanValidationCode`. */
+  issues?: { path: string; message: string; code?: LoanValidationCode }[];
+}
+
+export function getApiErrorResponse(error: LoanApiError): LoanApiResponse {
+  return { status: 400, body: { error } };
+}
+
+export type LoanScheduleRequest = z.infer<typeof loanScheduleRequestSchema>;
+
+export type LoanSolveRequest = z.infer<typeof loanSolveRequestSchema>;
+
+export interface LoanScheduleSummary extends LoanScheduleTotals {
+  startPayment: number;
+  paymentCount: number;
+  lastPaymentDate: string;
+  fullCostPercent: number;
+  effectiveAnnualRatePercent: number;
+}
+
+export type LoanScheduleCalculation =
+  | {
+      params: LoanScheduleRequest;
+      schedule: LoanScheduleEntry[];
+      summary: LoanScheduleSummary;
+    }
+  | { error: LoanApiError };
+
+export function toScheduleEntryJson(entry: LoanScheduleEntry) {
+  return { ...entry, paymentDate: format(entry.paymentDate, "yyyy-MM-dd") };
+}
+
+/** Totals, payment count and loan cost of a calculated schedule. */
+export function getScheduleSummary(
+  params: Pick<LoanScheduleParams, "issueDate" | "principal">,
+  result: ReturnType<typeof generateLoanSchedule>
+): LoanScheduleSummary {
+  const { schedule, startMonthlyPayment, totals } = result;
+  const payments = schedule.filter((entry) => entry.paymentAmount > 0);
+  const { fullCostPercent, effectiveAnnualRatePercent } = calculateLoanCost({
+    schedule,
+    issueDate: params.issueDate,
+    issueAmount: params.principal,
+  });
+  return {
+    ...totals,
+    startPayment: startMonthlyPayment,
+    paymentCount: payments.length,
+    lastPaymentDate: format(
+      payments[payments.length - 1].paymentDate,
+      "yyyy-MM-dd"
+    ),
+    fullCostPercent,
+    effectiveAnnualRatePercent,
+  };
+}
+
+export function getValidationError(error: z.ZodError): LoanApiError {
+  return {
+    code: "VALIDATION_ERROR",
+    message: "Request body does not match the schema",
+    issues: error.issues.map((issue) => ({
+      path: issue.path.join("."),
+      message: issue.message,
+    })),
+  };
+}
+
+/**
+ * Error thrown by the calculation. Parameters rejected by the engine are
+ * reported like schema issues, with the field path and the issue code, solver
+ * errors with the same localised message.
+ */
+export function getCalculationError(error: unknown): LoanApiError {
+  if (error instanceof LoanParamsError) {
+    return {
+      code: "VALIDATION_ERROR",
+      message: "Parameters are out of range",
+      issues: error.issues.map((issue) => ({
+        path: issue.path.join("."),
+        message: getValidationMessage(issue),
+        code: issue.code,
+      })),
+    };
+  }
+  if (error instanceof LoanSolveError) {
+    return { code: "CALCULATION_ERROR", message: getSolveErrorMessage(error) };
+  }
+  return { code: "CALCULATION_ERROR", message: (error as Error).message };
+}
+
+/** Validates the parameters and calculates the schedule with its summary. */
+export function calculateScheduleRequest(
+  body: unknown
+): LoanScheduleCalculation {
+  const validation = loanScheduleRequestSchema.safeParse(body);
+  if (!validation.success) {
+    return { error: getValidationError(validation.error) };
+  }
+
+  const params = validation.data;
+  try {
+    const { schedule, startMonthlyPayment, totals } =
+      generateLoanSchedule(params);
+    return {
+      params,
+      schedule,
+      summary: getScheduleSummary(params, {
+        schedule,
+        startMonthlyPayment,
+        totals,
+      }),
+    };
+  } catch (error) {
+    return { error: getCalculationError(error) };
+  }
+}
+
+/** Handles a `POST /api/schedule` body. */
+export function handleScheduleRequest(body: unknown): LoanApiResponse {
+  const calculation = calculateScheduleRequest(body);
+  if ("error" in calculation) {
+    return getApiErrorResponse(calculation.error);
+  }
+  return {
+    status: 200,
+    body: {
+      schedule: calculation.schedule.map(toScheduleEntryJson),
+      summary: calculation.summary,
+    },
+  };
+}
+
+/** JSON Schema of the request, coerced dates are documented as strings. */
+function getRequestJsonSchema() {
+  const { $schema, ...schema } = z.toJSONSchema(loanScheduleRequestSchema, {
+    io: "input",
+    unrepresentable: "any",
+    override: (ctx) => {
+      if (ctx.zodSchema._zod.def.type === "date") {
+        ctx.jsonSchema.type = "string";
+        ctx.jsonSchema.format = "date";
+      }
+    },
+  });
+  return schema;
+}
+
+const amountSchema = { type: "number" };
+
+const scheduleEntryJsonSchema = {
+  type: "object",
+  required: [
+    "paymentDate",
+    "paymentAmount",
+    "interestAmount",
+    "principalAmount",
+    "remainingPrincipal",
+  ],
+  properties: {
+    paymentDate: { type: "string", format: "date" },
+    paymentAmount: amountSchema,
+    interestAmount: amountSchema,
+    principalAmount: amountSchema,
+    remainingPrincipal: amountSchema,
+    isEarlyRepayment: { type: "boolean" },
+    earlyRepaymentAmount: amountSchema,
+    paymentHoliday: {
+      type: "string",
+      enum: ["INTEREST_ONLY", "CAPITALIZE", "DEFER"],
+    },
+    fees: { type: "object", additionalProperties: amountSchema },
+    feeAmount: amountSchema,
+  },
+};
+
+const apiErrorJsonSchema = {
+  type: "object",
+  required: ["code", "message"],
+  properties: {
+    code: {
+      type: "string",
+      enum: [
+        "INVALID_JSON",
+        "INVALID_CSV",
+        "VALIDATION_ERROR",
+        "CALCULATION_ERROR",
+      ],
+    },
+    message: { type: "string" },
+    issues: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["path", "message"],
+        properties: {
+          path: { type: "string" },
+          message: { type: "string" },
+          code: {
+            type: "string",
+            description: "Engine validation code, e.g. BEFORE_ISSUE_DATE",
+          },
+        },
+      },
+    },
+  },
+};
+
+/** OpenAPI document served at `/api/openapi.json`. */
+export function getOpenApiDocument() {
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Loan calculator API",
+      version: packageJson.version,
+      description: packageJson.description,
+    },
+    paths: {
+      "/api/schedule": {
+        post: {
+          summary: "Calculate a loan payment schedule",
+          operationId: "calculateSchedule",
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/LoanScheduleParams" },
+              },
+            },
+          },
+          responses: {
+            "200": {
+              description: "Payment schedule and its summary",
+              content: {
+                "application/json": {
+                  schema: { $ref: "#/components/schemas/LoanScheduleResult" },
+                },
+              },
+            },
+            "400": {
+              description:
+                "Malformed JSON, invalid parameters or a failed calculation",
+              content: {
+                "application/json": {
+                  schema: { $ref: "#/components/schemas/Error" },
+                },
+              },
+            },
+          },
+        },
+      },
+      "/api/batch": {
+        post: {
+          summary: "Calculate a portfolio of loans",
+          description:
+            "Accepts one loan per line as NDJSON or CSV with a header row. " +
+            "An optional `id` field is echoed back. Results are streamed as " +
+            "NDJSON in input order, a failed row yields an error line and " +
+            "the last line is the monthly portfolio cashflow. If the batch " +
+            "itself fails midway, the last line is an error without a row.",
+          operationId: "calculateBatch",
+          parameters: [
+            {
+              name: "schedule",
+              in: "query",
+              description: "Include the payment schedule of every loan",
+              schema: { type: "string", enum: ["1"] },
+            },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              "application/x-ndjson": {
+                schema: { $ref: "#/components/schemas/LoanScheduleParams" },
+              },
+              "text/csv": { schema: { type: "string" } },
+            },
+          },
+          responses: {
+            "200": {
+              description: "One result line per loan and the portfolio line",
+              content: {
+                "application/x-ndjson": {
+                  schema: { $ref: "#/components/schemas/BatchResultLine" },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    components: {
+      schemas: {
+        LoanScheduleParams: getRequestJsonSchema(),
+        LoanScheduleEntry: scheduleEntryJsonSchema,
+        LoanScheduleResult: {
+          type: "object",
+          required: ["schedule", "summary"],
+          properties: {
+            schedule: {
+              type: "array",
+              items: { $ref: "#/components/schemas/LoanScheduleEntry" },
+            },
+            summary: { $ref: "#/components/schemas/LoanScheduleSummary" },
+          },
+        },
+        LoanScheduleSummary: {
+          type: "object",
+          properties: {
+            totalPaymentAmount: amountSchema,
+            totalPrincipalAmount: amountSchema,
+            totalInterestAmount: amountSchema,
+            totalFeeAmount: amountSchema,
+            startPayment: amountSchema,
+            paymentCount: { type: "integer" },
+            lastPaymentDate: { type: "string", format: "date" },
+            fullCostPercent: amountSchema,
+            effectiveAnnualRatePercent: amountSchema,
+          },
+        },
+        BatchResultLine: {
+          oneOf: [
+            {
+              type: "object",
+              required: ["type", "row", "summary"],
+              properties: {
+                type: { const: "loan" },
+                row: { type: "integer" },
+                id: { type: "string" },
+                summary: { $ref: "#/components/schemas/LoanScheduleSummary" },
+                schedule: {
+                  type: "array",
+                  items: { $ref: "#/components/schemas/LoanScheduleEntry" },
+                },
+              },
+            },
+            {
+              type: "object",
+              required: ["type", "error"],
+              properties: {
+                type: { const: "error" },
+                row: { type: "integer" },
+                id: { type: "string" },
+                error: { $ref: "#/components/schemas/ApiError" },
+              },
+            },
+            {
+              type: "object",
+              required: ["type", "loanCount", "errorCount", "cashflow"],
+              properties: {
+                type: { const: "portfolio" },
+                loanCount: { type: "integer" },
+                errorCount: { type: "integer" },
+                cashflow: {
+                  type: "array",
+                  items: {
+                    type: "object",
+                    properties: {
+                      month: { type: "string", pattern: "^\\d{4}-\\d{2}$" },
+                      paymentAmount: amountSchema,
+                      principalAmount: amountSchema,
+                      interestAmount: amountSchema,
+                      feeAmount: amountSchema,
+                      remainingPrincipal: amountSchema,
+                    },
+                  },
+                },
+              },
+            },
+          ],
+        },
+        ApiError: apiErrorJsonSchema,
+        Error: {
+          type: "object",
+          required: ["error"],
+          properties: {
+            error: { $ref: "#/components/schemas/ApiError" },
+          },
+        },
+      },
+    },
+  };
+}
@@ -0,0 +1,250 @@
+import { addMonths, format, startOfMonth } from "date-fns";
+import { LoanScheduleEntry, roundDecimals } from "@loan-calc/loan-lib";
+import {
+  LoanApiError,
+  LoanScheduleSummary,
+  calculateScheduleRequest,
+  toScheduleEntryJson,
+} from "./loan-api";
+
+export type BatchInputFormat = "ndjson" | "csv";
+
+export interface BatchOptions {
+  format: BatchInputFormat;
+  /** Adds the full schedule to every loan result. */
+  includeSchedule?: boolean;
+}
+
+/** Totals of all loans for one calendar month. */
+export interface PortfolioCashflowMonth {
+  /** YYYY-MM */
+  month: string;
+  paymentAmount: number;
+  principalAmount: number;
+  interestAmount: number;
+  feeAmount: number;
+  /** Remaining principal of all loans at the end of the month. */
+  remainingPrincipal: number;
+}
+
+/** One line of the streamed batch response. */
+export type BatchResultLine =
+  | {
+      type: "loan";
+      row: number;
+      id?: string;
+      summary: LoanScheduleSummary;
+      schedule?: ReturnType<typeof toScheduleEntryJson>[];
+    }
+  | { type: "error"; row: number; id?: string; error: LoanApiError }
+  | {
+      type: "portfolio";
+      loanCount: number;
+      errorCount: number;
+      cashflow: PortfolioCashflowMonth[];
+    };
+
+/** CSV columns parsed as booleans, the rest are left to the schema. */
+const CSV_BOOLEAN_COLUMNS = ["interestOnlyFirstPeriod"];
+
+/**
+ * Splits a CSV line on commas or semicolons, the delimiter is taken from the
+ * header. Quoted cells may contain delimiters and doubled quotes.
+ */
+function parseCsvLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let cell = "";
+  let isQuoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (isQuoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        isQuoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      isQuoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  return cells.map((value) => value.trim());
+}
+
+function getCsvRecord(
+  header: string[],
+  cells: string[]
+): Record<string, unknown> {
+  if (cells.length !== header.length) {
+    throw new Error(`Expected ${header.length} columns, got ${cells.length}`);
+  }
+  const record: Record<string, unknown> = {};
+  header.forEach((column, index) => {
+    const value = cells[index];
+    if (value === "") {
+      return;
+    }
+    record[column] = CSV_BOOLEAN_COLUMNS.includes(column)
+      ? ["true", "1", "да"].includes(value.toLowerCase())
+      : value;
+  });
+  return record;
+}
+
+/**
+ * Adds a loan to the monthly cashflow. Between payments the loan keeps its
+ * last balance, from the issue month it counts with the full principal.
+ */
+function addToPortfolioCashflow(
+  cashflow: Map<string, PortfolioCashflowMonth>,
+  schedule: LoanScheduleEntry[],
+  issueDate: Date,
+  principal: number
+) {
+  const getMonth = (month: string) => {
+    let cashflowMonth = cashflow.get(month);
+    if (!cashflowMonth) {
+      cashflowMonth = {
+        month,
+        paymentAmount: 0,
+        principalAmount: 0,
+        interestAmount: 0,
+        feeAmount: 0,
+        remainingPrincipal: 0,
+      };
+      cashflow.set(month, cashflowMonth);
+    }
+    return cashflowMonth;
+  };
+
+  let balance = principal;
+  let entryIndex = 0;
+  const lastMonth = startOfMonth(schedule[schedule.length - 1].paymentDate);
+  for (
+    let monthStart = startOfMonth(issueDate);
+    monthStart <= lastMonth;
+    monthStart = addMonths(monthStart, 1)
+  ) {
+    const month = format(monthStart, "yyyy-MM");
+    const cashflowMonth = getMonth(month);
+    while (
+      entryIndex < schedule.length &&
+      format(schedule[entryIndex].paymentDate, "yyyy-MM") === month
+    ) {
+      const entry = schedule[entryIndex];
+      cashflowMonth.paymentAmount += entry.paymentAmount;
+      cashflowMonth.principalAmount += entry.principalAmount;
+      cashflowMonth.interestAmount += entry.interestAmount;
+      cashflowMonth.feeAmount += entry.feeAmount ?? 0;
+      balance = entry.remainingPrincipal;
+      entryIndex++;
+    }
+    cashflowMonth.remainingPrincipal += balance;
+  }
+}
+
+function getPortfolioCashflow(
+  cashflow: Map<string, PortfolioCashflowMonth>
+): PortfolioCashflowMonth[] {
+  return Array.from(cashflow.values())
+    .sort((a, b) => a.month.localeCompare(b.month))
+    .map((month) => ({
+      month: month.month,
+      paymentAmount: roundDecimals(month.paymentAmount, 2),
+      principalAmount: roundDecimals(month.principalAmount, 2),
+      interestAmount: roundDecimals(month.interestAmount, 2),
+      feeAmount: roundDecimals(month.feeAmount, 2),
+      remainingPrincipal: roundDecimals(month.remainingPrincipal, 2),
+    }));
+}
+
+/**
+ * Calculates every loan of an NDJSON or CSV input, yielding a result or an
+ * error per row as soon as it is ready and the portfolio cashflow at the end.
+ * A broken row does not stop the batch.
+ */
+export async function* runBatch(
+  lines: AsyncIterable<string>,
+  options: BatchOptions
+): AsyncGenerator<BatchResultLine> {
+  const cashflow = new Map<string, PortfolioCashflowMonth>();
+  let csvHeader: string[] | null = null;
+  let csvDelimiter = ",";
+  let row = 0;
+  let loanCount = 0;
+  let errorCount = 0;
+
+  for await (const rawLine of lines) {
+    const line = rawLine.replace(/^\uFEFF/, "").trim();
+    if (!line) {
+      continue;
+    }
+    if (options.format === "csv" && !csvHeader) {
+      csvDelimiter = line.includes(";") ? ";" : ",";
+      csvHeader = parseCsvLine(line, csvDelimiter);
+      continue;
+    }
+    row++;
+
+    let params: Record<string, unknown>;
+    try {
+      params =
+        options.format === "csv"
+          ? getCsvRecord(csvHeader, parseCsvLine(line, csvDelimiter))
+          : JSON.parse(line);
+    } catch (error) {
+      errorCount++;
+      yield {
+        type: "error",
+        row,
+        error: {
+          code: options.format === "csv" ? "INVALID_CSV" : "INVALID_JSON",
+          message: (error as Error).message,
+        },
+      };
+      continue;
+    }
+
+    // Optional loan identifier echoed back in the result
+    const { id, ...loanParams } = params ?? {};
+    const loanId = id == null ? undefined : String(id);
+    const calculation = calculateScheduleRequest(loanParams);
+    if ("error" in calculation) {
+      errorCount++;
+      yield { type: "error", row, id: loanId, error: calculation.error };
+      continue;
+    }
+
+    loanCount++;
+    addToPortfolioCashflow(
+      cashflow,
+      calculation.schedule,
+      calculation.params.issueDate,
+      calculation.params.principal
+    );
+    yield {
+      type: "loan",
+      row,
+      id: loanId,
+      summary: calculation.summary,
+      schedule: options.includeSchedule
+        ? calculation.schedule.map(toScheduleEntryJson)
+        : undefined,
+    };
+  }
+
+  yield {
+    type: "portfolio",
+    loanCount,
+    errorCount,
+    cashflow: getPortfolioCashflow(cashflow),
+  };
+}
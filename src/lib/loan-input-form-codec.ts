@@ -0,0 +1,371 @@
+import { format, parseISO } from "date-fns";
+import { LoanInputForm } from "../types/loan-input-form.type";
+
+/** Bumped whenever the encoded form layout changes incompatibly. */
+export const SHARE_FORMAT_VERSION = 1;
+
+/** Query or hash parameter holding the encoded form. */
+export const SHARE_URL_PARAM = "s";
+
+/**
+ * Layout of the stored form. Bump it together with a migration in
+ * `STORED_FORM_MIGRATIONS` whenever `LoanInputForm` changes shape.
+ */
+export const STORED_FORM_VERSION = 2;
+
+/** Item of a stored form list, e.g. an early repayment. */
+type StoredListItem = Record<string, unknown>;
+
+/**
+ * `LoanInputForm` as plain JSON with dates as YYYY-MM-DD strings. Forms read
+ * back may come from an older version or an edited document, so they are
+ * taken as `Record<string, unknown>` and every value is checked.
+ */
+export interface StoredLoanInputForm extends Partial<
+  Omit<
+    LoanInputForm,
+    "issueDate" | "earlyRepayments" | "rateChanges" | "fees" | "paymentHolidays"
+  >
+> {
+  [field: string]: unknown;
+  issueDate?: string;
+  earlyRepayments: StoredListItem[];
+  rateChanges: StoredListItem[];
+  fees: StoredListItem[];
+  paymentHolidays: StoredListItem[];
+}
+
+/** Upgrades a stored form from the version it is keyed by to the next one. */
+const STORED_FORM_MIGRATIONS: Record<
+  number,
+  (form: Record<string, unknown>) => Record<string, unknown>
+> = {
+  // Holiday shifting became a business day convention
+  1: ({ moveHolidayToNextDay, ...form }) => ({
+    ...form,
+    businessDayConvention:
+      form.businessDayConvention ??
+      (moveHolidayToNextDay ? "FOLLOWING" : "UNADJUSTED"),
+  }),
+};
+
+const PAYMENT_FREQUENCIES = [
+  "WEEKLY",
+  "BIWEEKLY",
+  "MONTHLY",
+  "QUARTERLY",
+  "SEMI_ANNUAL",
+  "ANNUAL",
+] as const;
+
+const SOLVE_TARGETS = [
+  "loanAmount",
+  "interestRate",
+  "loanTerm",
+  "paymentAmount",
+] as const;
+
+const DAY_COUNT_BASES = [
+  "ACTUAL_365",
+  "ACTUAL_360",
+  "ACTUAL_ACTUAL",
+  "ACTUAL_365L",
+  "THIRTY_360_US",
+  "THIRTY_E_360",
+] as const;
+
+const ROUNDING_MODES = ["HALF_UP", "HALF_EVEN", "TRUNCATE"] as const;
+
+const BUSINESS_DAY_CONVENTIONS = [
+  "UNADJUSTED",
+  "FOLLOWING",
+  "MODIFIED_FOLLOWING",
+  "PRECEDING",
+] as const;
+
+const EARLY_REPAYMENT_PERIODICITIES = [
+  "ONCE",
+  "MONTHLY",
+  "QUARTERLY",
+  "YEARLY",
+] as const;
+
+const EARLY_REPAYMENT_AMOUNT_TYPES = [
+  "AMOUNT",
+  "PERCENT_OF_BALANCE",
+  "ROUND_UP_PAYMENT",
+  "PAYMENT_BUDGET",
+] as const;
+
+const REPAYMENT_TYPES = ["DECREASE_TERM", "DECREASE_PAYMENT"] as const;
+
+const FEE_TYPES = ["ONE_OFF", "PERIODIC", "PERCENT_OF_BALANCE"] as const;
+
+const FEE_PERIODICITIES = ["MONTHLY", "QUARTERLY", "YEARLY"] as const;
+
+const PAYMENT_HOLIDAY_TYPES = ["INTEREST_ONLY", "CAPITALIZE", "DEFER"] as const;
+
+const formatDate = (date: Date | undefined) =>
+  date ? format(date, "yyyy-MM-dd") : undefined;
+
+// YYYY-MM-DD is a local date, `new Date` would read it as UTC midnight
+function toDate<T extends Date | undefined>(value: unknown, fallback: T) {
+  return typeof value === "string" && value ? parseISO(value) : fallback;
+}
+
+function oneOf<T extends string>(
+  value: unknown,
+  values: readonly T[],
+  fallback: T
+): T {
+  return values.includes(value as T) ? (value as T) : fallback;
+}
+
+function toListItems(value: unknown): StoredListItem[] {
+  return Array.isArray(value)
+    ? value.filter((item) => item && typeof item === "object")
+    : [];
+}
+
+const toId = (value: unknown, prefix: string) =>
+  typeof value === "string" && value
+    ? value
+    : `${prefix}-${Date.now()}-${Math.random()}`;
+
+// A stored 0 is a value of its own, e.g. an interest-free loan, only missing
+// and non-numeric values fall back
+function toNumber<T extends number | undefined>(
+  value: unknown,
+  fallback: T
+): number | T {
+  if (value === "" || value == null) {
+    return fallback;
+  }
+  const number = Number(value);
+  return Number.isFinite(number) ? number : fallback;
+}
+
+/** Plain JSON form of the inputs with dates as YYYY-MM-DD strings. */
+export function toStoredLoanInputForm(
+  value: Partial<LoanInputForm>
+): StoredLoanInputForm {
+  return {
+    ...value,
+    issueDate: formatDate(value.issueDate),
+    earlyRepayments: (value.earlyRepayments || []).map((er) => ({
+      id: er.id,
+      earlyRepaymentDateStart: formatDate(er.earlyRepaymentDateStart),
+      earlyRepaymentDateEnd: formatDate(er.earlyRepaymentDateEnd),
+      periodicity: er.periodicity,
+      earlyRepaymentAmount: er.earlyRepaymentAmount,
+      earlyRepaymentAmountType: er.earlyRepaymentAmountType,
+      repaymentType: er.repaymentType,
+      withRegularPayment: er.withRegularPayment,
+    })),
+    rateChanges: (value.rateChanges || []).map((rc) => ({
+      id: rc.id,
+      effectiveDate: formatDate(rc.effectiveDate),
+      annualInterestRatePercent: rc.annualInterestRatePercent,
+    })),
+    fees: (value.fees || []).map((fee) => ({
+      id: fee.id,
+      name: fee.name,
+      type: fee.type,
+      amount: fee.amount,
+      date: formatDate(fee.date),
+      periodicity: fee.periodicity,
+    })),
+    paymentHolidays: (value.paymentHolidays || []).map((ph) => ({
+      id: ph.id,
+      startDate: formatDate(ph.startDate),
+      periods: ph.periods,
+      type: ph.type,
+    })),
+  };
+}
+
+/**
+ * Restores the form from its stored JSON form. Missing or unknown values fall
+ * back to the defaults, so settings saved by older versions still load.
+ */
+export function fromStoredLoanInputForm(
+  parsed: Record<string, unknown>
+): LoanInputForm {
+  return {
+    loanAmount: toNumber(parsed.loanAmount, 100000),
+    loanTerm: toNumber(parsed.loanTerm, 12),
+    loanTermType: parsed.loanTermType === "y" ? "y" : "m",
+    loanType: parsed.loanType === "AMORTIZATION" ? "AMORTIZATION" : "ANNUITY",
+    interestRate: toNumber(parsed.interestRate, 10),
+    paymentFrequency: oneOf(
+      parsed.paymentFrequency,
+      PAYMENT_FREQUENCIES,
+      "MONTHLY"
+    ),
+    solveFor: oneOf(parsed.solveFor, SOLVE_TARGETS, "NONE"),
+    paymentAmount: toNumber(parsed.paymentAmount, undefined),
+    dayCountBasis: oneOf(parsed.dayCountBasis, DAY_COUNT_BASES, "ACTUAL_365"),
+    roundingDecimals: toNumber(parsed.roundingDecimals, 2),
+    roundingMode: oneOf(parsed.roundingMode, ROUNDING_MODES, "HALF_UP"),
+    issueDate: toDate(parsed.issueDate, new Date()),
+    paymentDayNumber: toNumber(parsed.paymentDayNumber, 20),
+    interestOnlyFirstPeriod: Boolean(parsed.interestOnlyFirstPeriod),
+    businessDayConvention: oneOf(
+      parsed.businessDayConvention,
+      BUSINESS_DAY_CONVENTIONS,
+      "UNADJUSTED"
+    ),
+    holidayCalendar: parsed.holidayCalendar === "WEEKENDS" ? "WEEKENDS" : "RU",
+    customHolidays:
+      typeof parsed.customHolidays === "string" ? parsed.customHolidays : "",
+    balloonPaymentType:
+      parsed.balloonPaymentType === "AMOUNT" ? "AMOUNT" : "PERCENT",
+    balloonPaymentValue: toNumber(parsed.balloonPaymentValue, undefined),
+    earlyRepayments: toListItems(parsed.earlyRepayments).map((er) => ({
+      id: toId(er.id, "er"),
+      earlyRepaymentDateStart: toDate(er.earlyRepaymentDateStart, new Date()),
+      earlyRepaymentDateEnd: toDate(er.earlyRepaymentDateEnd, undefined),
+      periodicity: oneOf(
+        er.periodicity,
+        EARLY_REPAYMENT_PERIODICITIES,
+        "MONTHLY"
+      ),
+      earlyRepaymentAmount: toNumber(er.earlyRepaymentAmount, 0),
+      earlyRepaymentAmountType: oneOf(
+        er.earlyRepaymentAmountType,
+        EARLY_REPAYMENT_AMOUNT_TYPES,
+        "AMOUNT"
+      ),
+      repaymentType: oneOf(
+        er.repaymentType,
+        REPAYMENT_TYPES,
+        "DECREASE_PAYMENT"
+      ),
+      withRegularPayment: Boolean(er.withRegularPayment),
+    })),
+    rateChanges: toListItems(parsed.rateChanges).map((rc) => ({
+      id: toId(rc.id, "rc"),
+      effectiveDate: toDate(rc.effectiveDate, new Date()),
+      annualInterestRatePercent: toNumber(rc.annualInterestRatePercent, 0),
+    })),
+    fees: toListItems(parsed.fees).map((fee) => ({
+      id: toId(fee.id, "fee"),
+      name: typeof fee.name === "string" ? fee.name : "",
+      type: oneOf(fee.type, FEE_TYPES, "ONE_OFF"),
+      amount: toNumber(fee.amount, 0),
+      date: toDate(fee.date, undefined),
+      periodicity: oneOf(fee.periodicity, FEE_PERIODICITIES, "MONTHLY"),
+    })),
+    paymentHolidays: toListItems(parsed.paymentHolidays).map((ph) => ({
+      id: toId(ph.id, "ph"),
+      startDate: toDate(ph.startDate, new Date()),
+      periods: toNumber(ph.periods, 1),
+      type: oneOf(ph.type, PAYMENT_HOLIDAY_TYPES, "INTEREST_ONLY"),
+    })),
+  };
+}
+
+/** Brings a stored form of an older version up to `STORED_FORM_VERSION`. */
+export function migrateStoredLoanInputForm(
+  form: Record<string, unknown>,
+  version: number
+): Record<string, unknown> {
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error(`Invalid stored form version: ${version}`);
+  }
+  if (version > STORED_FORM_VERSION) {
+    throw new Error(
+      `Stored form version ${version} is newer than ${STORED_FORM_VERSION}`
+    );
+  }
+  for (let from = version; from < STORED_FORM_VERSION; from++) {
+    form = STORED_FORM_MIGRATIONS[from](form);
+  }
+  return form;
+}
+
+/** Drops ids and empty values, they are restored on decoding. */
+function compact(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(compact);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(
+          ([key, item]) =>
+            key !== "id" &&
+            item !== undefined &&
+            item !== "" &&
+            !(Array.isArray(item) && item.length === 0)
+        )
+        .map(([key, item]) => [key, compact(item)])
+    );
+  }
+  return value;
+}
+
+function toBase64Url(value: string): string {
+  const bytes = new TextEncoder().encode(value);
+  let binary = "";
+  bytes.forEach((byte) => (binary += String.fromCharCode(byte)));
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): string {
+  const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+  return new TextDecoder().decode(
+    Uint8Array.from(binary, (char) => char.charCodeAt(0))
+  );
+}
+
+/** URL-safe string with the version prefix, e.g. `1.eyJsb2Fu...`. */
+export function encodeLoanInputForm(form: LoanInputForm): string {
+  return `${SHARE_FORMAT_VERSION}.${toBase64Url(
+    JSON.stringify(compact(toStoredLoanInputForm(form)))
+  )}`;
+}
+
+export function decodeLoanInputForm(value: string): LoanInputForm {
+  const separatorIndex = value.indexOf(".");
+  const version = Number(value.slice(0, separatorIndex));
+  if (separatorIndex < 0 || version !== SHARE_FORMAT_VERSION) {
+    throw new Error(`Unsupported share format version: ${value.slice(0, 8)}`);
+  }
+  return fromStoredLoanInputForm(
+    JSON.parse(fromBase64Url(value.slice(separatorIndex + 1)))
+  );
+}
+
+/** Encoded form from the `s` parameter of the URL hash or query string. */
+export function getSharedFormParam(location: {
+  hash: string;
+  search: string;
+}): string | null {
+  return (
+    new URLSearchParams(location.hash.replace(/^#/, "")).get(SHARE_URL_PARAM) ??
+    new URLSearchParams(location.search).get(SHARE_URL_PARAM)
+  );
+}
+
+/** URL without the `s` parameter, other query and hash parameters are kept. */
+export function withoutSharedFormParam(location: {
+  pathname: string;
+  hash: string;
+  search: string;
+}): string {
+  const search = new URLSearchParams(location.search);
+  search.delete(SHARE_URL_PARAM);
+  const hash = new URLSearchParams(location.hash.replace(/^#/, ""));
+  hash.delete(SHARE_URL_PARAM);
+  const query = search.toString();
+  const fragment = hash.toString();
+  return (
+    location.pathname +
+    (query ? `?${query}` : "") +
+    (fragment ? `#${fragment}` : "")
+  );
+}
@@ -0,0 +1,204 @@
+import { isValid } from "date-fns";
+import { z } from "zod";
+import {
+  LoanParamsPath,
+  LoanScheduleParams,
+  LoanSolveTarget,
+  LoanValidationIssue,
+  getValidationMessage,
+  parseHolidayList,
+  validateLoanScheduleParams,
+  validateLoanSolverParams,
+} from "@loan-calc/loan-lib";
+import { LoanInputForm } from "../types/loan-input-form.type";
+
+// Поле можно оставить пустым, если его значение подбирается по остальным
+const blankable = <T extends z.ZodType>(schema: T) =>
+  z.preprocess(
+    (value) => (value === "" || value == null ? undefined : value),
+    schema.optional()
+  );
+
+// Поля только приводятся к числам, диапазоны и связи между полями проверяет
+// движок расчета, см. validateLoanScheduleParams
+export const numberRule = z.coerce.number();
+export const loanTypeSchema = z.enum(["ANNUITY", "AMORTIZATION"]);
+export const paymentFrequencySchema = z.enum([
+  "WEEKLY",
+  "BIWEEKLY",
+  "MONTHLY",
+  "QUARTERLY",
+  "SEMI_ANNUAL",
+  "ANNUAL",
+]);
+export const businessDayConventionSchema = z.enum([
+  "UNADJUSTED",
+  "FOLLOWING",
+  "MODIFIED_FOLLOWING",
+  "PRECEDING",
+]);
+export const holidayCalendarSchema = z.enum(["RU", "WEEKENDS"]);
+export const dayCountBasisSchema = z.enum([
+  "ACTUAL_365",
+  "ACTUAL_360",
+  "ACTUAL_ACTUAL",
+  "ACTUAL_365L",
+  "THIRTY_360_US",
+  "THIRTY_E_360",
+]);
+export const roundingModeSchema = z.enum(["HALF_UP", "HALF_EVEN", "TRUNCATE"]);
+export const balloonPaymentTypeSchema = z.enum(["AMOUNT", "PERCENT"]);
+
+export const earlyRepaymentSchema = z.object({
+  id: z.string(),
+  earlyRepaymentDateStart: z.coerce.date(),
+  earlyRepaymentDateEnd: z.coerce.date().optional(),
+  periodicity: z.enum(["ONCE", "MONTHLY", "QUARTERLY", "YEARLY"]),
+  earlyRepaymentAmount: numberRule,
+  earlyRepaymentAmountType: z
+    .enum([
+      "AMOUNT",
+      "PERCENT_OF_BALANCE",
+      "ROUND_UP_PAYMENT",
+      "PAYMENT_BUDGET",
+    ])
+    .optional(),
+  repaymentType: z.enum(["DECREASE_TERM", "DECREASE_PAYMENT"]),
+  withRegularPayment: z.boolean().optional(),
+});
+
+export const rateChangeSchema = z.object({
+  id: z.string(),
+  effectiveDate: z.coerce.date(),
+  annualInterestRatePercent: numberRule,
+});
+
+export const feeSchema = z.object({
+  id: z.string(),
+  name: z.string().trim(),
+  type: z.enum(["ONE_OFF", "PERIODIC", "PERCENT_OF_BALANCE"]),
+  amount: numberRule,
+  date: z.coerce.date().optional(),
+  periodicity: z.enum(["MONTHLY", "QUARTERLY", "YEARLY"]).optional(),
+});
+
+export const paymentHolidaySchema = z.object({
+  id: z.string(),
+  startDate: z.coerce.date(),
+  periods: numberRule,
+  type: z.enum(["INTEREST_ONLY", "CAPITALIZE", "DEFER"]),
+});
+
+/** Form fields solved from the others and the matching solver target. */
+export const FORM_SOLVE_TARGETS: Record<
+  Exclude<LoanInputForm["solveFor"], "NONE" | undefined>,
+  LoanSolveTarget
+> = {
+  loanAmount: "principal",
+  interestRate: "annualInterestRatePercent",
+  loanTerm: "termMonths",
+  paymentAmount: "paymentAmount",
+};
+
+/** Engine parameters of the form, the solved field is left as entered. */
+export function toLoanScheduleParams(form: LoanInputForm): LoanScheduleParams {
+  return {
+    ...form,
+    termMonths: form.loanTerm * (form.loanTermType === "y" ? 12 : 1),
+    principal: form.loanAmount,
+    annualInterestRatePercent: form.interestRate,
+    earlyRepayments: form.earlyRepayments,
+    customHolidays: parseHolidayList(form.customHolidays ?? ""),
+    balloonPayment: form.balloonPaymentValue
+      ? {
+          type: form.balloonPaymentType ?? "PERCENT",
+          value: form.balloonPaymentValue,
+        }
+      : undefined,
+  };
+}
+
+/** Form field of an engine parameter path. */
+function toFormPath(path: LoanParamsPath): LoanParamsPath {
+  switch (path[0]) {
+    case "principal":
+      return ["loanAmount"];
+    case "termMonths":
+      return ["loanTerm"];
+    case "annualInterestRatePercent":
+      return ["interestRate"];
+    case "balloonPayment":
+      return ["balloonPaymentValue"];
+    case "annuityPayment":
+      return ["paymentAmount"];
+    case "customHolidays":
+      return ["customHolidays"];
+    default:
+      return path;
+  }
+}
+
+/** Engine issues with the form fields they are shown next to. */
+export function toFormIssues(
+  issues: LoanValidationIssue[]
+): { path: LoanParamsPath; message: string }[] {
+  return issues.map((issue) => ({
+    path: toFormPath(issue.path),
+    message: getValidationMessage(issue),
+  }));
+}
+
+/** Validation of the loan input form, messages are shown next to the fields. */
+export const loanInputFormSchema = z
+  .object({
+    loanAmount: blankable(numberRule),
+    loanTerm: blankable(numberRule),
+    loanTermType: z.enum(["y", "m"]),
+    interestRate: blankable(numberRule),
+    solveFor: z
+      .enum(["NONE", "loanAmount", "interestRate", "loanTerm", "paymentAmount"])
+      .optional(),
+    paymentAmount: blankable(numberRule),
+    loanType: loanTypeSchema,
+    paymentFrequency: paymentFrequencySchema.optional(),
+    interestOnlyFirstPeriod: z.boolean().optional(),
+    businessDayConvention: businessDayConventionSchema.optional(),
+    holidayCalendar: holidayCalendarSchema.optional(),
+    customHolidays: z
+      .string()
+      .optional()
+      .refine(
+        (value) => !value || parseHolidayList(value).every(isValid),
+        "Даты в формате ДД.ММ.ГГГГ через запятую"
+      ),
+    dayCountBasis: dayCountBasisSchema.optional(),
+    roundingDecimals: z.union([numberRule, z.undefined()]),
+    roundingMode: roundingModeSchema.optional(),
+    balloonPaymentType: balloonPaymentTypeSchema.optional(),
+    balloonPaymentValue: z.union([numberRule, z.undefined()]),
+    issueDate: z.coerce.date(),
+    paymentDayNumber: numberRule,
+    earlyRepayments: z.array(earlyRepaymentSchema),
+    rateChanges: z.array(rateChangeSchema),
+    fees: z.array(feeSchema),
+    paymentHolidays: z.array(paymentHolidaySchema),
+  })
+  .superRefine((val, ctx) => {
+    const form = val as LoanInputForm;
+    const params = toLoanScheduleParams(form);
+    const solveFor =
+      form.solveFor && form.solveFor !== "NONE"
+        ? FORM_SOLVE_TARGETS[form.solveFor]
+        : null;
+    const issues = solveFor
+      ? validateLoanSolverParams({
+          ...params,
+          paymentAmount: form.paymentAmount,
+          solveFor,
+          [solveFor]: undefined,
+        })
+      : validateLoanScheduleParams(params);
+    toFormIssues(issues).forEach(({ path, message }) => {
+      ctx.addIssue({ code: "custom", path, message });
+    });
+  });
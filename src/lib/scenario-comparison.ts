@@ -0,0 +1,149 @@
+import { differenceInCalendarMonths, format } from "date-fns";
+import {
+  LoanScheduleEntry,
+  LoanScheduleParams,
+  LoanScheduleTotals,
+  generateLoanSchedule,
+  roundDecimals,
+} from "@loan-calc/loan-lib";
+
+export interface LoanScenario {
+  id: string;
+  name: string;
+  /** Schedule parameters with solved values already filled in. */
+  params: LoanScheduleParams;
+}
+
+export interface LoanScenarioResult {
+  scenario: LoanScenario;
+  schedule: LoanScheduleEntry[];
+  totals: LoanScheduleTotals;
+  startPayment: number;
+  lastPaymentDate: Date;
+  /** Rows with a payment, fee-only rows are not counted. */
+  paymentCount: number;
+}
+
+/** Differences of a scenario against the base, positive when it is cheaper. */
+export interface LoanScenarioDelta {
+  interestSaved: number;
+  totalPaymentSaved: number;
+  termSavedMonths: number;
+  paymentsSaved: number;
+}
+
+export interface AlignedScheduleRow {
+  paymentDate: Date;
+  base?: LoanScheduleEntry;
+  other?: LoanScheduleEntry;
+}
+
+export interface RemainingPrincipalPoint {
+  paymentDate: Date;
+  /** Remaining principal per scenario, in the order the schedules are given. */
+  remainingPrincipal: number[];
+}
+
+export function calculateScenario(scenario: LoanScenario): LoanScenarioResult {
+  const { schedule, startMonthlyPayment, totals } = generateLoanSchedule(
+    scenario.params
+  );
+  const payments = schedule.filter((entry) => entry.paymentAmount > 0);
+  return {
+    scenario,
+    schedule,
+    totals,
+    startPayment: startMonthlyPayment,
+    lastPaymentDate: payments[payments.length - 1]?.paymentDate,
+    paymentCount: payments.length,
+  };
+}
+
+export function getScenarioDelta(
+  base: LoanScenarioResult,
+  other: LoanScenarioResult,
+  roundingDecimals = 2
+): LoanScenarioDelta {
+  const getTotalPayment = (result: LoanScenarioResult) =>
+    result.totals.totalPaymentAmount + result.totals.totalFeeAmount;
+  return {
+    interestSaved: roundDecimals(
+      base.totals.totalInterestAmount - other.totals.totalInterestAmount,
+      roundingDecimals
+    ),
+    totalPaymentSaved: roundDecimals(
+      getTotalPayment(base) - getTotalPayment(other),
+      roundingDecimals
+    ),
+    termSavedMonths: differenceInCalendarMonths(
+      base.lastPaymentDate,
+      other.lastPaymentDate
+    ),
+    paymentsSaved: base.paymentCount - other.paymentCount,
+  };
+}
+
+/**
+ * Pairs the rows of two schedules by payment date. Rows sharing a date within
+ * one schedule, like an early repayment on a payment day, pair up in order.
+ */
+export function alignSchedules(
+  base: LoanScheduleEntry[],
+  other: LoanScheduleEntry[]
+): AlignedScheduleRow[] {
+  const rows = new Map<string, AlignedScheduleRow>();
+  const addEntries = (
+    schedule: LoanScheduleEntry[],
+    side: "base" | "other"
+  ) => {
+    const dateCounts = new Map<string, number>();
+    for (const entry of schedule) {
+      const day = format(entry.paymentDate, "yyyy-MM-dd");
+      const count = dateCounts.get(day) ?? 0;
+      dateCounts.set(day, count + 1);
+      const key = `${day}#${count}`;
+      const row = rows.get(key) ?? { paymentDate: entry.paymentDate };
+      row[side] = entry;
+      rows.set(key, row);
+    }
+  };
+  addEntries(base, "base");
+  addEntries(other, "other");
+  return Array.from(rows.entries())
+    .sort(([keyA], [keyB]) => keyA.localeCompare(keyB, "en", { numeric: true }))
+    .map(([, row]) => row);
+}
+
+/**
+ * Remaining principal of every schedule on each payment date of any of them.
+ * Between its own payments a schedule keeps the last balance, before the
+ * first payment it shows the issued principal.
+ */
+export function getRemainingPrincipalSeries(
+  schedules: LoanScheduleEntry[][],
+  principals: number[]
+): RemainingPrincipalPoint[] {
+  const days = Array.from(
+    new Set(
+      schedules.flatMap((schedule) =>
+        schedule.map((entry) => format(entry.paymentDate, "yyyy-MM-dd"))
+      )
+    )
+  ).sort();
+  const positions = schedules.map(() => 0);
+  const balances = [...principals];
+  return days.map((day) => {
+    let paymentDate: Date;
+    schedules.forEach((schedule, index) => {
+      while (
+        positions[index] < schedule.length &&
+        format(schedule[positions[index]].paymentDate, "yyyy-MM-dd") <= day
+      ) {
+        paymentDate = schedule[positions[index]].paymentDate;
+        balances[index] = schedule[positions[index]].remainingPrincipal;
+        positions[index]++;
+      }
+    });
+    return { paymentDate, remainingPrincipal: [...balances] };
+  });
+}
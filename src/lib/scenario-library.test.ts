@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import scenarioV1 from "./fixtures/scenario-v1.json";
+import {
+  exportScenarioDocument,
+  importScenarioDocument,
+} from "./scenario-library";
+
+describe("scenario documents", () => {
+  it("migrates a version 1 document", () => {
+    const scenario = importScenarioDocument(JSON.stringify(scenarioV1));
+
+    expect(scenario.name).toBe("Ипотека, версия 1");
+    expect(scenario.tags).toEqual(["ипотека"]);
+    expect(scenario.form.loanAmount).toBe(3000000);
+    expect(scenario.form.interestRate).toBe(0);
+    expect(scenario.form.businessDayConvention).toBe("FOLLOWING");
+    expect(scenario.form.rateChanges).toEqual([]);
+    expect(scenario.form.earlyRepayments[0].earlyRepaymentAmount).toBe(500000);
+  });
+
+  it("round-trips a migrated document", () => {
+    const scenario = importScenarioDocument(JSON.stringify(scenarioV1));
+    const reimported = importScenarioDocument(exportScenarioDocument(scenario));
+
+    expect(reimported.name).toBe(scenario.name);
+    expect(reimported.tags).toEqual(scenario.tags);
+    expect(reimported.form).toEqual(scenario.form);
+  });
+});
@@ -0,0 +1,165 @@
+import { LoanInputForm } from "../types/loan-input-form.type";
+import {
+  STORED_FORM_VERSION,
+  fromStoredLoanInputForm,
+  migrateStoredLoanInputForm,
+  toStoredLoanInputForm,
+} from "./loan-input-form-codec";
+import { loanInputFormSchema } from "./loan-input-form-schema";
+
+export interface SavedScenario {
+  id: string;
+  name: string;
+  tags: string[];
+  form: LoanInputForm;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** Scenario as kept in IndexedDB and in exported JSON documents. */
+interface StoredScenario {
+  id: string;
+  name: string;
+  tags: string[];
+  /** Version of `form`, see `STORED_FORM_VERSION`. */
+  version: number;
+  form: Record<string, unknown>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Marks JSON documents exported by the calculator. */
+export const SCENARIO_DOCUMENT_FORMAT = "loan-calc-scenario";
+
+const DB_NAME = "loan-calc";
+const DB_VERSION = 1;
+const SCENARIO_STORE = "scenarios";
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(SCENARIO_STORE, { keyPath: "id" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** Runs one request against the scenario store and closes the database. */
+async function withScenarioStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(SCENARIO_STORE, mode);
+      const request = run(transaction.objectStore(SCENARIO_STORE));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+function toStoredScenario(scenario: SavedScenario): StoredScenario {
+  return {
+    id: scenario.id,
+    name: scenario.name,
+    tags: scenario.tags,
+    version: STORED_FORM_VERSION,
+    form: toStoredLoanInputForm(scenario.form),
+    createdAt: scenario.createdAt.toISOString(),
+    updatedAt: scenario.updatedAt.toISOString(),
+  };
+}
+
+function fromStoredScenario(stored: StoredScenario): SavedScenario {
+  return {
+    id: stored.id,
+    name: stored.name,
+    tags: stored.tags ?? [],
+    form: fromStoredLoanInputForm(
+      migrateStoredLoanInputForm(stored.form, stored.version ?? 1)
+    ),
+    createdAt: new Date(stored.createdAt),
+    updatedAt: new Date(stored.updatedAt),
+  };
+}
+
+export function createScenarioId(): string {
+  return `scenario-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/** All saved scenarios, most recently updated first. */
+export async function listScenarios(): Promise<SavedScenario[]> {
+  const stored = await withScenarioStore<StoredScenario[]>(
+    "readonly",
+    (store) => store.getAll()
+  );
+  return stored
+    .map(fromStoredScenario)
+    .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+}
+
+/** Adds the scenario or replaces the one with the same id. */
+export async function saveScenario(scenario: SavedScenario): Promise<void> {
+  await withScenarioStore("readwrite", (store) =>
+    store.put(toStoredScenario(scenario))
+  );
+}
+
+export async function deleteScenario(id: string): Promise<void> {
+  await withScenarioStore("readwrite", (store) => store.delete(id));
+}
+
+/** Pretty-printed JSON document with the scenario and its form version. */
+export function exportScenarioDocument(scenario: SavedScenario): string {
+  const { id, ...stored } = toStoredScenario(scenario);
+  return JSON.stringify(
+    { format: SCENARIO_DOCUMENT_FORMAT, ...stored },
+    null,
+    2
+  );
+}
+
+/**
+ * Reads an exported scenario, migrating forms of older versions. The migrated
+ * form is completed with defaults for fields older versions did not have and
+ * checked with the input form schema, the scenario gets a new id.
+ */
+export function importScenarioDocument(json: string): SavedScenario {
+  const scenarioDocument = JSON.parse(json);
+  if (
+    scenarioDocument?.format !== SCENARIO_DOCUMENT_FORMAT ||
+    !scenarioDocument.form
+  ) {
+    throw new Error("Not a loan scenario document");
+  }
+  const storedForm = migrateStoredLoanInputForm(
+    scenarioDocument.form,
+    Number(scenarioDocument.version ?? 1)
+  );
+  const form = fromStoredLoanInputForm(storedForm);
+  const validation = loanInputFormSchema.safeParse(form);
+  if (!validation.success) {
+    const issue = validation.error.issues[0];
+    throw new Error(`${issue.path.join(".")}: ${issue.message}`);
+  }
+  const now = new Date();
+  return {
+    id: createScenarioId(),
+    name: String(scenarioDocument.name || "Импортированный сценарий"),
+    tags: Array.isArray(scenarioDocument.tags)
+      ? scenarioDocument.tags.map(String)
+      : [],
+    form,
+    createdAt: scenarioDocument.createdAt
+      ? new Date(scenarioDocument.createdAt)
+      : now,
+    updatedAt: now,
+  };
+}
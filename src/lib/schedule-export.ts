@@ -0,0 +1,151 @@
+import { format } from "date-fns";
+import writeXlsxFile from "write-excel-file/browser";
+import type { SheetData } from "write-excel-file/browser";
+import {
+  LoanCost,
+  LoanScheduleEntry,
+  LoanScheduleTotals,
+  PaymentHolidayType,
+  roundDecimals,
+} from "@loan-calc/loan-lib";
+
+export interface ScheduleExportParams {
+  schedule: LoanScheduleEntry[];
+  totals: LoanScheduleTotals;
+  loanCost?: LoanCost;
+  /** Input parameters listed on the summary sheet, label and value. */
+  parameters: [string, string | number][];
+  /** Fee names in column order, see `LoanScheduleEntry.fees`. */
+  feeNames?: string[];
+  /** Defaults to 2. */
+  roundingDecimals?: number;
+}
+
+const PAYMENT_HOLIDAY_LABELS: Record<PaymentHolidayType, string> = {
+  INTEREST_ONLY: "Только проценты",
+  CAPITALIZE: "Капитализация процентов",
+  DEFER: "Отсрочка процентов",
+};
+
+function getScheduleHeader(feeNames: string[]): string[] {
+  return [
+    "№",
+    "Дата платежа",
+    "Платеж",
+    "Проценты",
+    "Основной долг",
+    "В т.ч. досрочно",
+    "Остаток долга",
+    "Досрочное погашение",
+    "Кредитные каникулы",
+    ...feeNames,
+    "Комиссии и страховки",
+  ];
+}
+
+function getScheduleRows(
+  schedule: LoanScheduleEntry[],
+  feeNames: string[]
+): (string | number | Date)[][] {
+  return schedule.map((entry, index) => [
+    index + 1,
+    entry.paymentDate,
+    entry.paymentAmount,
+    entry.interestAmount,
+    entry.principalAmount,
+    entry.earlyRepaymentAmount ?? 0,
+    entry.remainingPrincipal,
+    entry.isEarlyRepayment ? "Да" : "Нет",
+    entry.paymentHoliday ? PAYMENT_HOLIDAY_LABELS[entry.paymentHoliday] : "",
+    ...feeNames.map((name) => entry.fees?.[name] ?? 0),
+    entry.feeAmount ?? 0,
+  ]);
+}
+
+function getSummaryRows(
+  params: ScheduleExportParams
+): [string, string | number][] {
+  const { totals, loanCost } = params;
+  return [
+    ...params.parameters,
+    [
+      "Всего выплат",
+      roundDecimals(
+        totals.totalPaymentAmount + totals.totalFeeAmount,
+        params.roundingDecimals ?? 2
+      ),
+    ],
+    ["Основной долг", totals.totalPrincipalAmount],
+    ["Проценты", totals.totalInterestAmount],
+    ["Комиссии и страховки", totals.totalFeeAmount],
+    ...(loanCost
+      ? ([
+          ["ПСК, %", loanCost.fullCostPercent],
+          ["Эффективная ставка, %", loanCost.effectiveAnnualRatePercent],
+        ] as [string, number][])
+      : []),
+  ];
+}
+
+/**
+ * Semicolon separated CSV with decimal commas, the format Excel expects in
+ * the Russian locale. Starts with a BOM so Excel reads it as UTF-8.
+ */
+export function exportScheduleToCsv(params: ScheduleExportParams): string {
+  const feeNames = params.feeNames ?? [];
+  const formatCell = (value: string | number | Date) => {
+    if (value instanceof Date) {
+      return format(value, "dd.MM.yyyy");
+    }
+    if (typeof value === "number") {
+      return String(value).replace(".", ",");
+    }
+    return /[";\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  };
+  const lines = [
+    getScheduleHeader(feeNames),
+    ...getScheduleRows(params.schedule, feeNames),
+  ].map((row) => row.map(formatCell).join(";"));
+  return "\uFEFF" + lines.join("\r\n") + "\r\n";
+}
+
+/** XLSX workbook with the schedule and a summary sheet. */
+export function exportScheduleToXlsx(
+  params: ScheduleExportParams
+): Promise<Blob> {
+  const feeNames = params.feeNames ?? [];
+  const header = getScheduleHeader(feeNames).map((value) => ({
+    value,
+    fontWeight: "bold" as const,
+  }));
+  const amountFormat = "#,##0.00";
+  const scheduleData: SheetData = [
+    header,
+    ...getScheduleRows(params.schedule, feeNames).map((row) =>
+      row.map((value, index) =>
+        typeof value === "number" && index > 0
+          ? { value, format: amountFormat }
+          : value instanceof Date
+            ? { value, format: "dd.mm.yyyy" }
+            : value
+      )
+    ),
+  ];
+  const summaryData: SheetData = getSummaryRows(params).map(
+    ([label, value]) => [{ value: label, fontWeight: "bold" as const }, value]
+  );
+
+  return writeXlsxFile([
+    {
+      sheet: "График платежей",
+      data: scheduleData,
+      columns: header.map((_, index) => ({ width: index === 0 ? 6 : 18 })),
+      stickyRowsCount: 1,
+    },
+    {
+      sheet: "Сводка",
+      data: summaryData,
+      columns: [{ width: 32 }, { width: 20 }],
+    },
+  ]).toBlob();
+}
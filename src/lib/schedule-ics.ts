@@ -0,0 +1,162 @@
+import { addDays, format } from "date-fns";
+import { LoanScheduleEntry } from "@loan-calc/loan-lib";
+
+export interface ScheduleIcsParams {
+  schedule: LoanScheduleEntry[];
+  /** Defaults to 2. */
+  roundingDecimals?: number;
+  /** Days before each payment to remind about it, no reminders by default. */
+  reminderDaysBefore?: number[];
+  /** Payments before this date are left out. Defaults to all payments. */
+  fromDate?: Date;
+  /**
+   * Identifies the loan in event UIDs, e.g. its issue date and amount, so
+   * files of different loans do not replace each other's events.
+   */
+  loanId?: string;
+}
+
+/** RFC 5545 limits content lines to 75 octets, longer ones are folded. */
+const MAX_LINE_OCTETS = 75;
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+function getUtf8Length(char: string): number {
+  const codePoint = char.codePointAt(0);
+  if (codePoint < 0x80) {
+    return 1;
+  }
+  if (codePoint < 0x800) {
+    return 2;
+  }
+  return codePoint < 0x10000 ? 3 : 4;
+}
+
+/** Folds a content line without splitting multi-byte characters. */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let part = "";
+  let partOctets = 0;
+  for (const char of Array.from(line)) {
+    const charOctets = getUtf8Length(char);
+    // Continuation lines start with a space, which counts towards the limit
+    if (partOctets + charOctets > MAX_LINE_OCTETS - (parts.length ? 1 : 0)) {
+      parts.push(part);
+      part = "";
+      partOctets = 0;
+    }
+    part += char;
+    partOctets += charOctets;
+  }
+  parts.push(part);
+  return parts.join("\r\n ");
+}
+
+function formatDateTimeUtc(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+function getEventLines(
+  entry: LoanScheduleEntry,
+  uid: string,
+  params: ScheduleIcsParams,
+  timestamp: string
+): string[] {
+  const decimals = params.roundingDecimals ?? 2;
+  const formatAmount = (value: number) =>
+    value.toLocaleString("ru-RU", {
+      minimumFractionDigits: decimals,
+      maximumFractionDigits: decimals,
+    });
+  const totalAmount = entry.paymentAmount + (entry.feeAmount ?? 0);
+  const summary = entry.isEarlyRepayment
+    ? `Досрочное погашение кредита: ${formatAmount(totalAmount)}`
+    : `Платеж по кредиту: ${formatAmount(totalAmount)}`;
+  const description = [
+    `Платеж: ${formatAmount(entry.paymentAmount)}`,
+    `Основной долг: ${formatAmount(entry.principalAmount)}`,
+    ...(entry.earlyRepaymentAmount
+      ? [`В т.ч. досрочно: ${formatAmount(entry.earlyRepaymentAmount)}`]
+      : []),
+    `Проценты: ${formatAmount(entry.interestAmount)}`,
+    ...(entry.feeAmount
+      ? [`Комиссии и страховки: ${formatAmount(entry.feeAmount)}`]
+      : []),
+    `Остаток долга: ${formatAmount(entry.remainingPrincipal)}`,
+  ].join("\n");
+  const day = format(entry.paymentDate, "yyyyMMdd");
+
+  return [
+    "BEGIN:VEVENT",
+    `UID:${uid}`,
+    `DTSTAMP:${timestamp}`,
+    `DTSTART;VALUE=DATE:${day}`,
+    `DTEND;VALUE=DATE:${format(addDays(entry.paymentDate, 1), "yyyyMMdd")}`,
+    `SUMMARY:${escapeText(summary)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    "TRANSP:TRANSPARENT",
+    ...(params.reminderDaysBefore ?? []).flatMap((days) => [
+      "BEGIN:VALARM",
+      "ACTION:DISPLAY",
+      `DESCRIPTION:${escapeText(summary)}`,
+      `TRIGGER:-P${days}D`,
+      "END:VALARM",
+    ]),
+    "END:VEVENT",
+  ];
+}
+
+/**
+ * iCalendar file with an all-day event per payment, early repayments
+ * included. Payment dates are taken from the schedule as is, so they are
+ * already moved off non-business days.
+ */
+export function exportScheduleToIcs(params: ScheduleIcsParams): string {
+  const timestamp = formatDateTimeUtc(new Date());
+  const fromDay = params.fromDate && format(params.fromDate, "yyyy-MM-dd");
+  // UIDs depend on the date and kind of the payment only, not on its row, so
+  // an event keeps its UID when an early repayment adds rows before it and
+  // calendars update it when the file is imported again
+  const uidCounts = new Map<string, number>();
+  const getUid = (entry: LoanScheduleEntry) => {
+    const kind = entry.isEarlyRepayment
+      ? "early"
+      : entry.paymentAmount > 0
+        ? "payment"
+        : "fee";
+    const key = [
+      params.loanId ?? "loan",
+      format(entry.paymentDate, "yyyyMMdd"),
+      kind,
+    ].join("-");
+    const count = (uidCounts.get(key) ?? 0) + 1;
+    uidCounts.set(key, count);
+    return `${key}${count > 1 ? `-${count}` : ""}@loan-calc`;
+  };
+  const events = params.schedule.flatMap((entry) =>
+    entry.paymentAmount + (entry.feeAmount ?? 0) > 0 &&
+    (!fromDay || format(entry.paymentDate, "yyyy-MM-dd") >= fromDay)
+      ? getEventLines(entry, getUid(entry), params, timestamp)
+      : []
+  );
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//loan-calc//Loan schedule//RU",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText("Платежи по кредиту")}`,
+    ...events,
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
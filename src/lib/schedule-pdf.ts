@@ -0,0 +1,241 @@
+import { format } from "date-fns";
+import pdfMake from "pdfmake/build/pdfmake";
+import pdfFonts from "pdfmake/build/vfs_fonts";
+import type { Content, TDocumentDefinitions } from "pdfmake/interfaces";
+import { ScheduleExportParams } from "./schedule-export";
+
+// Roboto from the pdfmake font bundle covers Cyrillic
+pdfMake.addVirtualFileSystem(pdfFonts);
+
+export interface SchedulePdfParams extends ScheduleExportParams {
+  /** Figures of the summary card, label and formatted value. */
+  summary: [string, string][];
+}
+
+interface PieChartSlice {
+  name: string;
+  value: number;
+  color: string;
+}
+
+const EARLY_REPAYMENT_COLOR = "#fee2e2";
+const PAYMENT_HOLIDAY_COLOR = "#ffedd5";
+
+/** Pie chart as an SVG string, slices start at twelve o'clock. */
+function getPieChartSvg(slices: PieChartSlice[], size: number): string {
+  const radius = size / 2;
+  const total = slices.reduce((sum, slice) => sum + slice.value, 0);
+  let angle = -Math.PI / 2;
+  const shapes = slices
+    .filter((slice) => slice.value > 0)
+    .map((slice) => {
+      const sweep = (slice.value / total) * 2 * Math.PI;
+      if (sweep >= 2 * Math.PI - 1e-9) {
+        return `<circle cx="${radius}" cy="${radius}" r="${radius}" fill="${slice.color}"/>`;
+      }
+      const startX = radius + radius * Math.cos(angle);
+      const startY = radius + radius * Math.sin(angle);
+      angle += sweep;
+      const endX = radius + radius * Math.cos(angle);
+      const endY = radius + radius * Math.sin(angle);
+      const largeArc = sweep > Math.PI ? 1 : 0;
+      return (
+        `<path d="M ${radius} ${radius} L ${startX} ${startY} ` +
+        `A ${radius} ${radius} 0 ${largeArc} 1 ${endX} ${endY} Z" ` +
+        `fill="${slice.color}"/>`
+      );
+    });
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" ` +
+    `viewBox="0 0 ${size} ${size}">${shapes.join("")}</svg>`
+  );
+}
+
+function getLegendItem(text: string, color: string): Content {
+  return {
+    columns: [
+      {
+        width: 12,
+        canvas: [{ type: "rect", x: 0, y: 2, w: 8, h: 8, color }],
+      },
+      { text, width: "*" },
+    ],
+    margin: [0, 0, 0, 6],
+  };
+}
+
+function getPieChart(params: SchedulePdfParams): Content {
+  const { totals } = params;
+  const slices: PieChartSlice[] = [
+    {
+      name: "Основной долг",
+      value: totals.totalPrincipalAmount,
+      color: "#10b981",
+    },
+    { name: "Проценты", value: totals.totalInterestAmount, color: "#60a5fa" },
+    {
+      name: "Комиссии и страховки",
+      value: totals.totalFeeAmount,
+      color: "#f59e0b",
+    },
+  ].filter((slice, index) => index < 2 || slice.value > 0);
+  const total = slices.reduce((sum, slice) => sum + slice.value, 0);
+
+  return {
+    columns: [
+      { svg: getPieChartSvg(slices, 140), width: 140 },
+      {
+        width: "*",
+        margin: [20, 40, 0, 0],
+        stack: slices.map((slice) =>
+          getLegendItem(
+            `${slice.name} — ${((slice.value / total) * 100).toFixed(1)}%`,
+            slice.color
+          )
+        ),
+      },
+    ],
+  };
+}
+
+function getScheduleTable(params: SchedulePdfParams): Content {
+  const decimals = params.roundingDecimals ?? 2;
+  const formatAmount = (value: number) =>
+    value.toLocaleString("ru-RU", {
+      minimumFractionDigits: decimals,
+      maximumFractionDigits: decimals,
+    });
+  const hasFees = params.totals.totalFeeAmount > 0;
+  const hasEarlyRepayments = params.schedule.some(
+    (entry) => entry.earlyRepaymentAmount
+  );
+  const header = [
+    "№",
+    "Дата платежа",
+    "Платеж",
+    "Проценты",
+    "Основной долг",
+    ...(hasEarlyRepayments ? ["В т.ч. досрочно"] : []),
+    "Остаток долга",
+    ...(hasFees ? ["Комиссии"] : []),
+  ].map((text) => ({ text, style: "tableHeader" }));
+
+  const rows = params.schedule.map((entry, index) => {
+    const fillColor = entry.isEarlyRepayment
+      ? EARLY_REPAYMENT_COLOR
+      : entry.paymentHoliday
+        ? PAYMENT_HOLIDAY_COLOR
+        : undefined;
+    return [
+      String(index + 1),
+      format(entry.paymentDate, "dd.MM.yyyy"),
+      formatAmount(entry.paymentAmount),
+      formatAmount(entry.interestAmount),
+      formatAmount(entry.principalAmount),
+      ...(hasEarlyRepayments
+        ? [formatAmount(entry.earlyRepaymentAmount ?? 0)]
+        : []),
+      formatAmount(entry.remainingPrincipal),
+      ...(hasFees ? [formatAmount(entry.feeAmount ?? 0)] : []),
+    ].map((text, column) => ({
+      text,
+      fillColor,
+      alignment: column > 1 ? ("right" as const) : ("left" as const),
+    }));
+  });
+
+  return {
+    table: {
+      headerRows: 1,
+      widths: [
+        20,
+        "auto",
+        "*",
+        "*",
+        "*",
+        ...(hasEarlyRepayments ? ["*"] : []),
+        "*",
+        ...(hasFees ? ["*"] : []),
+      ],
+      body: [header, ...rows],
+    },
+    layout: "lightHorizontalLines",
+    fontSize: 8,
+  };
+}
+
+function getLabelValueTable(rows: [string, string | number][]): Content {
+  return {
+    table: {
+      widths: ["*", "auto"],
+      body: rows.map(([label, value]) => [
+        label,
+        {
+          text:
+            typeof value === "number" ? value.toLocaleString("ru-RU") : value,
+          alignment: "right",
+        },
+      ]),
+    },
+    layout: "noBorders",
+  };
+}
+
+export function getScheduleDocumentDefinition(
+  params: SchedulePdfParams
+): TDocumentDefinitions {
+  return {
+    pageSize: "A4",
+    pageMargins: [40, 40, 40, 50],
+    info: { title: "График платежей по кредиту" },
+    defaultStyle: { font: "Roboto", fontSize: 10 },
+    styles: {
+      title: { fontSize: 16, bold: true, margin: [0, 0, 0, 4] },
+      subtitle: { fontSize: 12, bold: true, margin: [0, 16, 0, 8] },
+      tableHeader: { bold: true, fillColor: "#f3f4f6" },
+      note: { fontSize: 8, color: "#6b7280", margin: [0, 6, 0, 0] },
+    },
+    footer: (currentPage, pageCount) => ({
+      text: `Страница ${currentPage} из ${pageCount}`,
+      alignment: "center",
+      fontSize: 8,
+      color: "#6b7280",
+    }),
+    content: [
+      { text: "График платежей по кредиту", style: "title" },
+      {
+        text: `Сформирован ${format(new Date(), "dd.MM.yyyy")}`,
+        style: "note",
+      },
+      { text: "Параметры кредита", style: "subtitle" },
+      getLabelValueTable(params.parameters),
+      { text: "Итоги", style: "subtitle" },
+      getLabelValueTable(params.summary),
+      { text: "Структура выплат", style: "subtitle" },
+      getPieChart(params),
+      { text: "Платежи", style: "subtitle", pageBreak: "before" },
+      getScheduleTable(params),
+      {
+        margin: [0, 8, 0, 0],
+        columns: [
+          getLegendItem("Досрочное погашение", EARLY_REPAYMENT_COLOR),
+          getLegendItem("Кредитные каникулы", PAYMENT_HOLIDAY_COLOR),
+        ],
+        fontSize: 8,
+      },
+      {
+        unbreakable: true,
+        margin: [0, 40, 0, 0],
+        columns: [
+          { text: "Заемщик: ____________________ / ____________________" },
+          { text: "Дата: ________________", alignment: "right" },
+        ],
+      },
+    ],
+  };
+}
+
+/** PDF report with the parameters, totals, pie chart and schedule. */
+export function exportScheduleToPdf(params: SchedulePdfParams): Promise<Blob> {
+  return pdfMake.createPdf(getScheduleDocumentDefinition(params)).getBlob();
+}
@@ -4,18 +4,49 @@ export interface LoanInputForm {
     loanType: "ANNUITY" | "AMORTIZATION";
     loanTermType: "y" | "m";
     interestRate: number;
+    paymentFrequency?: "WEEKLY" | "BIWEEKLY" | "MONTHLY" | "QUARTERLY" | "SEMI_ANNUAL" | "ANNUAL";
+    /** Field left blank and solved from the others. */
+    solveFor?: "NONE" | "loanAmount" | "interestRate" | "loanTerm" | "paymentAmount";
+    paymentAmount?: number;
     interestOnlyFirstPeriod?: boolean;
-    dayCountBasis?: "ACTUAL_365" | "ACTUAL_360" | "ACTUAL_ACTUAL";
+    dayCountBasis?: "ACTUAL_365" | "ACTUAL_360" | "ACTUAL_ACTUAL" | "ACTUAL_365L" | "THIRTY_360_US" | "THIRTY_E_360";
     roundingDecimals?: number;
+    roundingMode?: "HALF_UP" | "HALF_EVEN" | "TRUNCATE";
     issueDate: Date;
     paymentDayNumber?: number;
-    moveHolidayToNextDay?: boolean;
+    businessDayConvention?: "UNADJUSTED" | "FOLLOWING" | "MODIFIED_FOLLOWING" | "PRECEDING";
+    holidayCalendar?: "RU" | "WEEKENDS";
+    /** Extra non-business days, DD.MM.YYYY separated by commas. */
+    customHolidays?: string;
+    balloonPaymentType?: "AMOUNT" | "PERCENT";
+    balloonPaymentValue?: number;
     earlyRepayments?: {
         id: string;
         earlyRepaymentDateStart: Date;
         earlyRepaymentDateEnd?: Date;
         periodicity?: "ONCE" | "MONTHLY" | "QUARTERLY" | "YEARLY";
         earlyRepaymentAmount?: number;
+        earlyRepaymentAmountType?: "AMOUNT" | "PERCENT_OF_BALANCE" | "ROUND_UP_PAYMENT" | "PAYMENT_BUDGET";
         repaymentType?: "DECREASE_TERM" | "DECREASE_PAYMENT";
+        withRegularPayment?: boolean;
+    }[];
+    rateChanges?: {
+        id: string;
+        effectiveDate: Date;
+        annualInterestRatePercent: number;
+    }[];
+    fees?: {
+        id: string;
+        name: string;
+        type: "ONE_OFF" | "PERIODIC" | "PERCENT_OF_BALANCE";
+        amount: number;
+        date?: Date;
+        periodicity?: "MONTHLY" | "QUARTERLY" | "YEARLY";
+    }[];
+    paymentHolidays?: {
+        id: string;
+        startDate: Date;
+        periods: number;
+        type: "INTEREST_ONLY" | "CAPITALIZE" | "DEFER";
     }[];
 }
\ No newline at end of file
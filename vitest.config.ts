@@ -0,0 +1,17 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    // Same aliases as tsconfig.json
+    alias: {
+      "@loan-calc/loan-lib": fileURLToPath(
+        new URL("./packages/loan-lib/src/index.ts", import.meta.url)
+      ),
+      "@": fileURLToPath(new URL("./src", import.meta.url)),
+    },
+  },
+  test: {
+    include: ["src/**/*.test.ts", "packages/*/src/**/*.test.ts"],
+  },
+});